@@ -0,0 +1,9 @@
+import ProjectLibrary from '@/components/ProjectLibrary';
+
+export default function Library() {
+  return (
+    <main className="flex min-h-screen flex-col items-center p-24">
+      <ProjectLibrary />
+    </main>
+  );
+}
@@ -0,0 +1,114 @@
+"use client";
+
+import {
+  AlignCenterHorizontal,
+  AlignCenterVertical,
+  AlignEndHorizontal,
+  AlignEndVertical,
+  AlignHorizontalDistributeCenter,
+  AlignStartHorizontal,
+  AlignStartVertical,
+  AlignVerticalDistributeCenter,
+  Group,
+  Ungroup,
+  type LucideIcon,
+} from 'lucide-react';
+import { Button } from './ui/button';
+import {
+  ALIGN_EDGES,
+  DISTRIBUTE_AXES,
+  type AlignEdge,
+  type DistributeAxis,
+} from '@/lib/poster/arrange';
+
+const ALIGN_ICONS: Record<AlignEdge, LucideIcon> = {
+  left: AlignStartVertical,
+  center: AlignCenterVertical,
+  right: AlignEndVertical,
+  top: AlignStartHorizontal,
+  middle: AlignCenterHorizontal,
+  bottom: AlignEndHorizontal,
+};
+
+const DISTRIBUTE_ICONS: Record<DistributeAxis, LucideIcon> = {
+  horizontal: AlignHorizontalDistributeCenter,
+  vertical: AlignVerticalDistributeCenter,
+};
+
+interface ArrangeToolbarProps {
+  // How many layers and whole groups are selected; a single one aligns to the canvas.
+  unitCount: number;
+  canUngroup: boolean;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+}
+
+export default function ArrangeToolbar({
+  unitCount,
+  canUngroup,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup,
+}: ArrangeToolbarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {ALIGN_EDGES.map(({ value, label }) => {
+        const Icon = ALIGN_ICONS[value];
+        return (
+          <Button
+            key={value}
+            type="button"
+            size="icon"
+            variant="ghost"
+            title={unitCount === 1 ? `${label} to canvas` : label}
+            disabled={unitCount === 0}
+            onClick={() => onAlign(value)}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        );
+      })}
+      <span className="mx-1 h-5 w-px bg-border" />
+      {DISTRIBUTE_AXES.map(({ value, label }) => {
+        const Icon = DISTRIBUTE_ICONS[value];
+        return (
+          <Button
+            key={value}
+            type="button"
+            size="icon"
+            variant="ghost"
+            title={label}
+            disabled={unitCount < 3}
+            onClick={() => onDistribute(value)}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        );
+      })}
+      <span className="mx-1 h-5 w-px bg-border" />
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        title="Group (Ctrl+G)"
+        disabled={unitCount < 2}
+        onClick={onGroup}
+      >
+        <Group className="h-4 w-4" />
+      </Button>
+      <Button
+        type="button"
+        size="icon"
+        variant="ghost"
+        title="Ungroup (Ctrl+Shift+G)"
+        disabled={!canUngroup}
+        onClick={onUngroup}
+      >
+        <Ungroup className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
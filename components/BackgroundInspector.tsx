@@ -0,0 +1,219 @@
+"use client";
+
+import { useRef } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import GradientStopsField from './GradientStopsField';
+import type { BackgroundFill, BackgroundPattern, PosterBackground } from '@/lib/poster/document';
+import { BACKGROUND_PATTERNS } from '@/lib/poster/background';
+
+type FillMode = 'none' | BackgroundFill['type'];
+
+const FILL_MODES: { value: FillMode; label: string }[] = [
+  { value: 'none', label: 'Solid color' },
+  { value: 'linear', label: 'Linear gradient' },
+  { value: 'radial', label: 'Radial gradient' },
+  { value: 'conic', label: 'Conic gradient' },
+  { value: 'pattern', label: 'Pattern' },
+  { value: 'image', label: 'Image' },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const degrees = (value: number) => `${value}°`;
+
+interface BackgroundInspectorProps {
+  background: PosterBackground;
+  assetUrls: Record<string, string>;
+  onChange: (background: PosterBackground) => void;
+  onUploadImage: (file: File) => void;
+}
+
+export default function BackgroundInspector({ background, assetUrls, onChange, onUploadImage }: BackgroundInspectorProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { fill } = background;
+  const setFill = (next: BackgroundFill | null) => onChange({ ...background, fill: next });
+
+  const changeFillMode = (mode: FillMode) => {
+    const stops =
+      fill && 'stops' in fill
+        ? fill.stops
+        : [
+            { offset: 0, color: background.color },
+            { offset: 1, color: '#000000' },
+          ];
+    const center = fill && 'center' in fill ? fill.center : { x: 0.5, y: 0.5 };
+    switch (mode) {
+      case 'none':
+        setFill(null);
+        break;
+      case 'linear':
+        setFill({ type: 'linear', angle: 180, stops });
+        break;
+      case 'radial':
+        setFill({ type: 'radial', center, stops });
+        break;
+      case 'conic':
+        setFill({ type: 'conic', angle: 0, center, stops });
+        break;
+      case 'pattern':
+        setFill({ type: 'pattern', pattern: 'dots', color: '#000000', size: 16, angle: 45 });
+        break;
+      case 'image':
+        imageInputRef.current?.click();
+        break;
+    }
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Background</h2>
+      <div className="space-y-2">
+        <Label>Fill</Label>
+        <div className="flex gap-2">
+          <ColorField value={background.color} onChange={(color) => onChange({ ...background, color })} />
+          <div className="flex-1">
+            <Select value={fill?.type ?? 'none'} onValueChange={(mode) => changeFillMode(mode as FillMode)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FILL_MODES.map((mode) => (
+                  <SelectItem key={mode.value} value={mode.value}>
+                    {mode.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) onUploadImage(file);
+          }}
+        />
+      </div>
+
+      {(fill?.type === 'linear' || fill?.type === 'conic') && (
+        <SliderField
+          label="Angle"
+          value={fill.angle}
+          min={0}
+          max={360}
+          format={degrees}
+          onChange={(angle) => setFill({ ...fill, angle })}
+        />
+      )}
+      {(fill?.type === 'radial' || fill?.type === 'conic') && (
+        <>
+          <SliderField
+            label="Center X"
+            value={fill.center.x}
+            min={0}
+            max={1}
+            step={0.01}
+            format={percent}
+            onChange={(x) => setFill({ ...fill, center: { ...fill.center, x } })}
+          />
+          <SliderField
+            label="Center Y"
+            value={fill.center.y}
+            min={0}
+            max={1}
+            step={0.01}
+            format={percent}
+            onChange={(y) => setFill({ ...fill, center: { ...fill.center, y } })}
+          />
+        </>
+      )}
+      {fill && 'stops' in fill && (
+        <div className="space-y-3">
+          <GradientStopsField stops={fill.stops} onChange={(stops) => setFill({ ...fill, stops })} />
+        </div>
+      )}
+
+      {fill?.type === 'pattern' && (
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <ColorField value={fill.color} onChange={(color) => setFill({ ...fill, color })} />
+            <div className="flex-1">
+              <Select
+                value={fill.pattern}
+                onValueChange={(pattern) => setFill({ ...fill, pattern: pattern as BackgroundPattern })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BACKGROUND_PATTERNS.map((pattern) => (
+                    <SelectItem key={pattern.value} value={pattern.value}>
+                      {pattern.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <SliderField
+            label={fill.pattern === 'noise' ? 'Grain' : 'Size'}
+            value={fill.size}
+            min={2}
+            max={80}
+            format={(value) => `${value}px`}
+            onChange={(size) => setFill({ ...fill, size })}
+          />
+          {(fill.pattern === 'stripes' || fill.pattern === 'halftone') && (
+            <SliderField
+              label="Angle"
+              value={fill.angle}
+              min={0}
+              max={360}
+              format={degrees}
+              onChange={(angle) => setFill({ ...fill, angle })}
+            />
+          )}
+        </div>
+      )}
+
+      {fill?.type === 'image' && (
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <span
+              className="h-9 w-9 rounded border bg-gray-200 bg-cover bg-center"
+              style={assetUrls[fill.assetId] ? { backgroundImage: `url("${assetUrls[fill.assetId]}")` } : undefined}
+            />
+            <Button type="button" variant="outline" size="sm" onClick={() => imageInputRef.current?.click()}>
+              Replace image
+            </Button>
+          </div>
+          <SliderField
+            label="Position X"
+            value={fill.focalPoint.x}
+            min={0}
+            max={1}
+            step={0.01}
+            format={percent}
+            onChange={(x) => setFill({ ...fill, focalPoint: { ...fill.focalPoint, x } })}
+          />
+          <SliderField
+            label="Position Y"
+            value={fill.focalPoint.y}
+            min={0}
+            max={1}
+            step={0.01}
+            format={percent}
+            onChange={(y) => setFill({ ...fill, focalPoint: { ...fill.focalPoint, y } })}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
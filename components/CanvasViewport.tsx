@@ -0,0 +1,223 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { Maximize, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from './ui/button';
+import type { PosterDocument } from '@/lib/poster/document';
+import {
+  centeredViewport,
+  clampZoom,
+  fitViewport,
+  zoomViewportAt,
+  ZOOM_STEP,
+  type Viewport,
+} from '@/lib/poster/viewport';
+
+// Trackpad pinches arrive as wheel events with Ctrl held; this turns their small deltas into zoom.
+const WHEEL_ZOOM_SPEED = 0.01;
+
+interface CanvasViewportProps {
+  canvas: PosterDocument['canvas'];
+  viewport: Viewport;
+  onChange: (viewport: Viewport) => void;
+  // Drawn over the stage, unscaled, e.g. rulers that follow the viewport.
+  rulers?: ReactNode;
+  children: ReactNode;
+}
+
+// Shows the poster zoomed and panned. Ctrl/⌘ + wheel or a pinch zooms around the pointer, the wheel
+// pans, and so does dragging with Space held or two fingers. The poster is refitted whenever the
+// canvas size changes.
+export default function CanvasViewport({ canvas, viewport, onChange, rulers, children }: CanvasViewportProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ x: number; y: number } | null>(null);
+  // The spread and midpoint of the two fingers of a touch pinch, in viewport pixels.
+  const pinchRef = useRef<{ distance: number; x: number; y: number } | null>(null);
+  const [spaceHeld, setSpaceHeld] = useState<boolean>(false);
+  // Wheel events can arrive faster than re-renders, so track the viewport we last sent.
+  const viewportRef = useRef(viewport);
+
+  useEffect(() => {
+    viewportRef.current = viewport;
+  }, [viewport]);
+
+  const update = (next: Viewport) => {
+    viewportRef.current = next;
+    onChange(next);
+  };
+
+  const fit = () => {
+    const container = containerRef.current;
+    if (container) update(fitViewport(canvas, container.clientWidth, container.clientHeight));
+  };
+
+  const zoomTo = (zoom: number) => {
+    const container = containerRef.current;
+    if (container) update(centeredViewport(canvas, container.clientWidth, container.clientHeight, clampZoom(zoom)));
+  };
+
+  // Zooming with the buttons keeps the middle of the viewport in place.
+  const zoomBy = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const current = viewportRef.current;
+    update(zoomViewportAt(current, current.zoom * factor, container.clientWidth / 2, container.clientHeight / 2));
+  };
+
+  const { width, height } = canvas;
+  useEffect(() => {
+    const container = containerRef.current;
+    if (container) onChange(fitViewport({ width, height }, container.clientWidth, container.clientHeight));
+  }, [width, height, onChange]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // React registers wheel listeners as passive, which cannot stop the page from scrolling or zooming.
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const current = viewportRef.current;
+      if (event.ctrlKey || event.metaKey) {
+        const bounds = container.getBoundingClientRect();
+        const zoom = current.zoom * Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED);
+        update(zoomViewportAt(current, zoom, event.clientX - bounds.left, event.clientY - bounds.top));
+      } else {
+        update({ ...current, x: current.x - event.deltaX, y: current.y - event.deltaY });
+      }
+    };
+    // Space only pans when nothing else wants it, like a focused button or a text being edited.
+    const onKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as Node;
+      if (event.code !== 'Space' || (target !== document.body && !container.contains(target))) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+      event.preventDefault();
+      setSpaceHeld(true);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setSpaceHeld(false);
+    };
+    const onBlur = () => setSpaceHeld(false);
+
+    const pinchOf = (touches: TouchList) => {
+      const bounds = container.getBoundingClientRect();
+      const [first, second] = [touches[0], touches[1]];
+      return {
+        distance: Math.hypot(first.clientX - second.clientX, first.clientY - second.clientY),
+        x: (first.clientX + second.clientX) / 2 - bounds.left,
+        y: (first.clientY + second.clientY) / 2 - bounds.top,
+      };
+    };
+    const onTouchStart = (event: TouchEvent) => {
+      if (event.touches.length === 2) pinchRef.current = pinchOf(event.touches);
+    };
+    // Listening in the capture phase lets a pinch take over from a layer drag or marquee its first
+    // finger started: their move events never get past the viewport while it lasts.
+    const onTouchMove = (event: TouchEvent) => {
+      const start = pinchRef.current;
+      if (!start || event.touches.length < 2) return;
+      event.preventDefault();
+      event.stopPropagation();
+      const next = pinchOf(event.touches);
+      pinchRef.current = next;
+      const current = viewportRef.current;
+      const panned = { ...current, x: current.x + next.x - start.x, y: current.y + next.y - start.y };
+      const scale = start.distance > 0 ? next.distance / start.distance : 1;
+      update(zoomViewportAt(panned, current.zoom * scale, next.x, next.y));
+    };
+    const onTouchEnd = (event: TouchEvent) => {
+      if (event.touches.length < 2) pinchRef.current = null;
+    };
+    const onPointerMove = (event: PointerEvent) => {
+      if (pinchRef.current && event.pointerType === 'touch') event.stopPropagation();
+    };
+
+    container.addEventListener('wheel', onWheel, { passive: false });
+    container.addEventListener('touchstart', onTouchStart, { capture: true });
+    container.addEventListener('touchmove', onTouchMove, { capture: true, passive: false });
+    container.addEventListener('touchend', onTouchEnd, { capture: true });
+    container.addEventListener('touchcancel', onTouchEnd, { capture: true });
+    container.addEventListener('pointermove', onPointerMove, { capture: true });
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      container.removeEventListener('wheel', onWheel);
+      container.removeEventListener('touchstart', onTouchStart, { capture: true });
+      container.removeEventListener('touchmove', onTouchMove, { capture: true });
+      container.removeEventListener('touchend', onTouchEnd, { capture: true });
+      container.removeEventListener('touchcancel', onTouchEnd, { capture: true });
+      container.removeEventListener('pointermove', onPointerMove, { capture: true });
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative h-[70vh] w-full touch-none overflow-hidden rounded-lg border bg-gray-100"
+    >
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+      >
+        {children}
+      </div>
+      {rulers}
+      {/* While Space is held this covers the poster, so dragging pans instead of moving layers. */}
+      {spaceHeld && (
+        <div
+          className="absolute inset-0 cursor-grab active:cursor-grabbing"
+          onPointerDown={(event) => {
+            event.currentTarget.setPointerCapture(event.pointerId);
+            panRef.current = { x: event.clientX, y: event.clientY };
+          }}
+          onPointerMove={(event) => {
+            const start = panRef.current;
+            if (!start) return;
+            panRef.current = { x: event.clientX, y: event.clientY };
+            const current = viewportRef.current;
+            update({ ...current, x: current.x + event.clientX - start.x, y: current.y + event.clientY - start.y });
+          }}
+          onPointerUp={() => {
+            panRef.current = null;
+          }}
+        />
+      )}
+      <div className="absolute bottom-2 right-2 flex items-center gap-1 rounded-md border bg-white p-1 shadow">
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Zoom out"
+          onClick={() => zoomBy(1 / ZOOM_STEP)}
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="w-12 text-center text-xs tabular-nums">{Math.round(viewport.zoom * 100)}%</span>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Zoom in"
+          onClick={() => zoomBy(ZOOM_STEP)}
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="h-7 px-2" title="Fit to screen" onClick={fit}>
+          <Maximize className="mr-1 h-3 w-3" /> Fit
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="h-7 px-2" onClick={() => zoomTo(1)}>
+          100%
+        </Button>
+        <Button type="button" size="sm" variant="ghost" className="h-7 px-2" onClick={() => zoomTo(2)}>
+          200%
+        </Button>
+      </div>
+    </div>
+  );
+}
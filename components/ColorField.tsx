@@ -0,0 +1,50 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Input } from './ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { normalizeHex } from '@/lib/poster/color';
+
+interface ColorFieldProps {
+  value: string;
+  onChange: (color: string) => void;
+  label?: string;
+}
+
+export default function ColorField({ value, onChange, label = 'Color' }: ColorFieldProps) {
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => setDraft(value), [value]);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex h-9 items-center gap-2 rounded-md border px-2 text-sm"
+          aria-label={label}
+        >
+          <span className="h-5 w-5 rounded border" style={{ backgroundColor: value }} />
+          <span className="font-mono">{value}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-56 space-y-2">
+        <input
+          type="color"
+          value={normalizeHex(value) ?? '#000000'}
+          onChange={(event) => onChange(event.target.value)}
+          className="h-24 w-full cursor-pointer rounded border-0 bg-transparent p-0"
+        />
+        <Input
+          value={draft}
+          onChange={(event) => {
+            setDraft(event.target.value);
+            const hex = normalizeHex(event.target.value);
+            if (hex) onChange(hex);
+          }}
+          className="font-mono"
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import type { GradientStop } from '@/lib/poster/document';
+
+interface GradientStopsFieldProps {
+  stops: GradientStop[];
+  onChange: (stops: GradientStop[]) => void;
+}
+
+export default function GradientStopsField({ stops, onChange }: GradientStopsFieldProps) {
+  const setStop = (index: number, stop: GradientStop) =>
+    onChange(stops.map((current, i) => (i === index ? stop : current)));
+
+  return (
+    <>
+      {stops.map((stop, index) => (
+        <div key={index} className="flex items-end gap-2">
+          <ColorField value={stop.color} onChange={(color) => setStop(index, { ...stop, color })} />
+          <div className="flex-1">
+            <SliderField
+              label={`Stop ${index + 1}`}
+              value={stop.offset}
+              min={0}
+              max={1}
+              step={0.01}
+              format={(value) => `${Math.round(value * 100)}%`}
+              onChange={(offset) => setStop(index, { ...stop, offset })}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            title="Remove stop"
+            disabled={stops.length <= 2}
+            onClick={() => onChange(stops.filter((_, i) => i !== index))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...stops, { offset: 1, color: '#ffffff' }])}
+      >
+        <Plus className="mr-1 h-3 w-3" /> Add stop
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Redo2, Undo2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import { allEntries, type PosterHistory } from '@/lib/poster/history';
+
+interface HistoryPanelProps {
+  history: PosterHistory;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (entryId: number) => void;
+}
+
+export default function HistoryPanel({ history, onUndo, onRedo, onJump }: HistoryPanelProps) {
+  const presentIndex = history.past.length;
+
+  return (
+    <div className="rounded-lg border p-3">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-sm font-semibold">History</h2>
+        <div className="flex gap-1">
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onUndo}
+            disabled={history.past.length === 0}
+            title="Undo (Ctrl+Z)"
+          >
+            <Undo2 className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={onRedo}
+            disabled={history.future.length === 0}
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            <Redo2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+      <ol className="max-h-48 overflow-y-auto text-sm">
+        {allEntries(history).map((entry, index) => (
+          <li key={entry.id}>
+            <button
+              type="button"
+              onClick={() => onJump(entry.id)}
+              className={cn(
+                'w-full rounded px-2 py-1 text-left hover:bg-accent',
+                index === presentIndex && 'bg-accent font-medium',
+                index > presentIndex && 'text-muted-foreground'
+              )}
+            >
+              {entry.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
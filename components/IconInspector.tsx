@@ -0,0 +1,46 @@
+"use client";
+
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import IconPicker from './IconPicker';
+import type { IconLayer } from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+import { iconComponent } from '@/lib/poster/icons';
+
+interface IconInspectorProps {
+  layer: IconLayer;
+  onChange: (changes: LayerChanges) => void;
+}
+
+export default function IconInspector({ layer, onChange }: IconInspectorProps) {
+  const Icon = iconComponent(layer.icon);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Icon · {layer.name}</h2>
+      <div className="flex items-center justify-between">
+        <Label>Icon</Label>
+        {/* Icons keep their default name in step; a renamed layer keeps its name. */}
+        <IconPicker onPick={(icon) => onChange(layer.name === layer.icon ? { icon, name: icon } : { icon })}>
+          <Button type="button" variant="outline" size="sm">
+            {Icon && <Icon className="mr-1 h-4 w-4" />} Change
+          </Button>
+        </IconPicker>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label>Color</Label>
+        <ColorField value={layer.color} onChange={(color) => onChange({ color })} />
+      </div>
+      <SliderField
+        label="Line width"
+        value={layer.strokeWidth}
+        min={0.5}
+        max={4}
+        step={0.25}
+        onChange={(strokeWidth) => onChange({ strokeWidth })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+"use client";
+
+import type { IconLayer } from '@/lib/poster/document';
+import { iconComponent } from '@/lib/poster/icons';
+
+interface IconLayerContentProps {
+  layer: IconLayer;
+}
+
+// Lucide icons are inline SVG, so they stay sharp at any size and export as vectors.
+export default function IconLayerContent({ layer }: IconLayerContentProps) {
+  const Icon = iconComponent(layer.icon);
+  if (!Icon) {
+    return <div className="h-full w-full bg-gray-200" />;
+  }
+  return (
+    <Icon
+      className="block"
+      width={layer.width}
+      height={layer.height}
+      color={layer.color}
+      strokeWidth={layer.strokeWidth}
+    />
+  );
+}
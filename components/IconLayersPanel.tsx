@@ -0,0 +1,169 @@
+"use client";
+
+import { useRef } from 'react';
+import { ArrowDown, ArrowUp, Copy, Plus, Trash2, Upload, X } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import type { IconLayer, PosterSticker } from '@/lib/poster/document';
+import { iconComponent } from '@/lib/poster/icons';
+import IconPicker from './IconPicker';
+
+interface IconLayersPanelProps {
+  // In document order, bottom to top.
+  layers: IconLayer[];
+  stickers: PosterSticker[];
+  assetUrls: Record<string, string>;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (icon: string) => void;
+  onPlaceSticker: (sticker: PosterSticker) => void;
+  onUploadStickers: (files: File[]) => void;
+  onRemoveSticker: (assetId: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBringForward: (id: string) => void;
+  onSendBackward: (id: string) => void;
+}
+
+function IconPreview({ icon }: { icon: string }) {
+  const Icon = iconComponent(icon);
+  return Icon ? <Icon className="h-4 w-4 shrink-0 text-muted-foreground" /> : <span className="h-4 w-4 shrink-0" />;
+}
+
+export default function IconLayersPanel({
+  layers,
+  stickers,
+  assetUrls,
+  selectedId,
+  onSelect,
+  onAdd,
+  onPlaceSticker,
+  onUploadStickers,
+  onRemoveSticker,
+  onDuplicate,
+  onDelete,
+  onBringForward,
+  onSendBackward,
+}: IconLayersPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const topFirst = [...layers].reverse();
+
+  return (
+    <div className="space-y-3">
+      <IconPicker onPick={onAdd}>
+        <Button type="button" variant="outline" size="sm">
+          <Plus className="mr-1 h-3 w-3" /> Add icon
+        </Button>
+      </IconPicker>
+      {topFirst.length === 0 && <p className="text-sm text-muted-foreground">No icons yet.</p>}
+      <ul className="space-y-2">
+        {topFirst.map((layer, index) => (
+          <li
+            key={layer.id}
+            className={cn(
+              'flex items-center gap-2 rounded-md border p-2',
+              layer.id === selectedId && 'border-sky-500'
+            )}
+            onClick={() => onSelect(layer.id)}
+          >
+            <IconPreview icon={layer.icon} />
+            <span className="flex-1 truncate text-sm font-medium">{layer.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Bring forward"
+              disabled={index === 0}
+              onClick={() => onBringForward(layer.id)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Send backward"
+              disabled={index === topFirst.length - 1}
+              onClick={() => onSendBackward(layer.id)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Duplicate"
+              onClick={() => onDuplicate(layer.id)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Delete"
+              onClick={() => onDelete(layer.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium">Stickers</h3>
+          <button
+            type="button"
+            className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => inputRef.current?.click()}
+          >
+            <Upload className="mr-1 h-3 w-3" /> Upload
+          </button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".svg,.png,image/svg+xml,image/png"
+            multiple
+            className="hidden"
+            onChange={(event) => {
+              const files = Array.from(event.target.files ?? []);
+              event.target.value = '';
+              if (files.length > 0) onUploadStickers(files);
+            }}
+          />
+        </div>
+        {stickers.length === 0 && (
+          <p className="text-sm text-muted-foreground">Upload SVG or PNG stickers to reuse them in this poster.</p>
+        )}
+        <div className="grid grid-cols-4 gap-2">
+          {stickers.map((sticker) => (
+            <div key={sticker.assetId} className="group relative">
+              <button
+                type="button"
+                title={`Place ${sticker.name}`}
+                className="aspect-square w-full rounded border bg-gray-100 bg-contain bg-center bg-no-repeat"
+                style={
+                  assetUrls[sticker.assetId] ? { backgroundImage: `url("${assetUrls[sticker.assetId]}")` } : undefined
+                }
+                onClick={() => onPlaceSticker(sticker)}
+              />
+              <button
+                type="button"
+                title="Remove from library"
+                className="absolute -right-1 -top-1 hidden rounded-full border bg-white p-0.5 group-hover:block"
+                onClick={() => onRemoveSticker(sticker.assetId)}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useState, type ReactNode } from 'react';
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from './ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { iconComponent, searchIcons } from '@/lib/poster/icons';
+
+// Rendering all 1500 icons at once makes typing sluggish, so only the best matches are shown.
+const MAX_RESULTS = 120;
+
+interface IconPickerProps {
+  children: ReactNode;
+  onPick: (icon: string) => void;
+}
+
+export default function IconPicker({ children, onPick }: IconPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const results = searchIcons(query, MAX_RESULTS);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start">
+        <Command shouldFilter={false}>
+          <CommandInput placeholder="Search icons…" value={query} onValueChange={setQuery} />
+          <CommandList>
+            <CommandEmpty>No icons found.</CommandEmpty>
+            <CommandGroup className="[&_[cmdk-group-items]]:grid [&_[cmdk-group-items]]:grid-cols-6">
+              {results.map((name) => {
+                const Icon = iconComponent(name);
+                return (
+                  Icon && (
+                    <CommandItem
+                      key={name}
+                      value={name}
+                      title={name}
+                      className="justify-center"
+                      onSelect={() => {
+                        onPick(name);
+                        setOpen(false);
+                      }}
+                    >
+                      <Icon className="h-5 w-5" />
+                    </CommandItem>
+                  )
+                );
+              })}
+            </CommandGroup>
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,322 @@
+"use client";
+
+import { useRef } from 'react';
+import { FlipHorizontal, FlipVertical, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import SliderField from './SliderField';
+import ColorField from './ColorField';
+import {
+  FULL_IMAGE_CROP,
+  NEUTRAL_IMAGE_ADJUSTMENTS,
+  type FrameShape,
+  type ImageAdjustments,
+  type ImageCrop,
+  type ImageFit,
+  type ImageFrame,
+  type ImageLayer,
+} from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+import { clampCrop } from '@/lib/poster/image';
+import { BUILT_IN_FRAME_SHAPES } from '@/lib/poster/frames';
+
+const FIT_MODES: { value: ImageFit; label: string }[] = [
+  { value: 'cover', label: 'Cover' },
+  { value: 'contain', label: 'Contain' },
+  { value: 'fill', label: 'Stretch' },
+  { value: 'none', label: 'Original size' },
+];
+
+const CROP_FIELDS: { key: keyof ImageCrop; label: string }[] = [
+  { key: 'x', label: 'Crop left' },
+  { key: 'y', label: 'Crop top' },
+  { key: 'width', label: 'Crop width' },
+  { key: 'height', label: 'Crop height' },
+];
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+type NumericAdjustment = Exclude<keyof ImageAdjustments, 'duotone'>;
+
+const ADJUSTMENT_FIELDS: {
+  key: NumericAdjustment;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  format: (value: number) => string;
+}[] = [
+  { key: 'exposure', label: 'Exposure', min: -3, max: 3, step: 0.1, format: (value) => `${value.toFixed(1)} EV` },
+  { key: 'brightness', label: 'Brightness', min: -100, max: 100, step: 1, format: String },
+  { key: 'contrast', label: 'Contrast', min: -100, max: 100, step: 1, format: String },
+  { key: 'saturation', label: 'Saturation', min: -100, max: 100, step: 1, format: String },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, format: (value) => `${value}°` },
+  { key: 'blur', label: 'Blur', min: 0, max: 0.1, step: 0.002, format: (value) => `${(value * 100).toFixed(1)}%` },
+  { key: 'grayscale', label: 'Grayscale', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'sepia', label: 'Sepia', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'vignette', label: 'Vignette', min: 0, max: 1, step: 0.05, format: percent },
+];
+
+// Any rounded rectangle counts as the "Rounded" preset.
+function sameShape(a: FrameShape, b: FrameShape) {
+  if (a.type === 'rectangle' && b.type === 'rectangle') {
+    return (a.cornerRadius > 0) === (b.cornerRadius > 0);
+  }
+  if (a.type === 'custom' && b.type === 'custom') {
+    return a.path === b.path;
+  }
+  return a.type === b.type;
+}
+
+interface ImageInspectorProps {
+  layer: ImageLayer;
+  url: string | undefined;
+  // Uploaded shapes already used in the poster, offered for reuse.
+  customShapes: FrameShape[];
+  onChange: (changes: LayerChanges) => void;
+  onUploadFrameShape: (file: File) => void;
+}
+
+export default function ImageInspector({
+  layer,
+  url,
+  customShapes,
+  onChange,
+  onUploadFrameShape,
+}: ImageInspectorProps) {
+  const frameInputRef = useRef<HTMLInputElement>(null);
+  const { crop, focalPoint, adjustments, frame } = layer;
+  const { duotone } = adjustments;
+  const { border } = frame;
+  const setFrame = (changes: Partial<ImageFrame>) => onChange({ frame: { ...frame, ...changes } });
+  const shapes = [
+    ...BUILT_IN_FRAME_SHAPES,
+    ...customShapes.map((shape) => ({ label: shape.type === 'custom' ? shape.name : 'Custom', shape })),
+  ];
+  const adjust = (changes: Partial<ImageAdjustments>) => onChange({ adjustments: { ...adjustments, ...changes } });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Image · {layer.name}</h2>
+
+      <div className="space-y-2">
+        <Label>Fit</Label>
+        <Select value={layer.fit} onValueChange={(fit) => onChange({ fit: fit as ImageFit })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FIT_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Focal point</Label>
+        <p className="text-xs text-muted-foreground">Click the part of the image that should stay in view.</p>
+        {/* Shows the cropped region; the dot marks the focal point. */}
+        <div
+          className="relative w-full cursor-crosshair overflow-hidden rounded border bg-gray-200"
+          style={{
+            aspectRatio: `${crop.width * layer.naturalWidth} / ${crop.height * layer.naturalHeight}`,
+            backgroundImage: url ? `url("${url}")` : undefined,
+            backgroundSize: `${100 / crop.width}% ${100 / crop.height}%`,
+            backgroundPosition: `${crop.width < 1 ? (crop.x / (1 - crop.width)) * 100 : 0}% ${
+              crop.height < 1 ? (crop.y / (1 - crop.height)) * 100 : 0
+            }%`,
+          }}
+          onClick={(event) => {
+            const bounds = event.currentTarget.getBoundingClientRect();
+            onChange({
+              focalPoint: {
+                x: Math.min(1, Math.max(0, (event.clientX - bounds.left) / bounds.width)),
+                y: Math.min(1, Math.max(0, (event.clientY - bounds.top) / bounds.height)),
+              },
+            });
+          }}
+        >
+          <span
+            className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-sky-500 shadow"
+            style={{ left: percent(focalPoint.x), top: percent(focalPoint.y) }}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Crop</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ crop: FULL_IMAGE_CROP })}
+          >
+            Reset
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">Or double-click the image on the canvas to pan and zoom.</p>
+        {CROP_FIELDS.map(({ key, label }) => (
+          <SliderField
+            key={key}
+            label={label}
+            value={crop[key]}
+            min={0}
+            max={1}
+            step={0.01}
+            format={percent}
+            onChange={(value) => onChange({ crop: clampCrop({ ...crop, [key]: value }) })}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Frame</Label>
+          <button
+            type="button"
+            className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+            onClick={() => frameInputRef.current?.click()}
+          >
+            <Upload className="mr-1 h-3 w-3" /> Upload SVG
+          </button>
+          <input
+            ref={frameInputRef}
+            type="file"
+            accept=".svg,image/svg+xml"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              event.target.value = '';
+              if (file) onUploadFrameShape(file);
+            }}
+          />
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {shapes.map(({ label, shape }, index) => (
+            <Button
+              key={index}
+              type="button"
+              size="sm"
+              variant={sameShape(frame.shape, shape) ? 'secondary' : 'outline'}
+              onClick={() => setFrame({ shape })}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+        {frame.shape.type === 'rectangle' && frame.shape.cornerRadius > 0 && (
+          <SliderField
+            label="Corner radius"
+            value={frame.shape.cornerRadius}
+            min={1}
+            max={Math.max(1, Math.round(Math.min(layer.width, layer.height) / 2))}
+            format={(value) => `${value}px`}
+            onChange={(cornerRadius) => setFrame({ shape: { type: 'rectangle', cornerRadius } })}
+          />
+        )}
+        <SliderField
+          label="Feather"
+          value={frame.feather}
+          min={0}
+          max={100}
+          format={(value) => `${value}px`}
+          onChange={(feather) => setFrame({ feather })}
+        />
+        <div className="flex items-center justify-between">
+          <Label>Border</Label>
+          <Button
+            type="button"
+            variant={border ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setFrame({ border: border ? null : { width: 4, color: '#ffffff' } })}
+          >
+            {border ? 'On' : 'Off'}
+          </Button>
+        </div>
+        {border && (
+          <div className="flex items-end gap-2">
+            <div className="flex-1">
+              <SliderField
+                label="Border width"
+                value={border.width}
+                min={1}
+                max={40}
+                format={(value) => `${value}px`}
+                onChange={(width) => setFrame({ border: { ...border, width } })}
+              />
+            </div>
+            <ColorField value={border.color} onChange={(color) => setFrame({ border: { ...border, color } })} />
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Adjustments</Label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ adjustments: NEUTRAL_IMAGE_ADJUSTMENTS })}
+          >
+            Reset
+          </Button>
+        </div>
+        {ADJUSTMENT_FIELDS.map(({ key, ...field }) => (
+          <SliderField key={key} {...field} value={adjustments[key]} onChange={(value) => adjust({ [key]: value })} />
+        ))}
+        <div className="flex items-center justify-between">
+          <Label>Duotone</Label>
+          <Button
+            type="button"
+            variant={duotone ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => adjust({ duotone: duotone ? null : { shadows: '#1e1b4b', highlights: '#f9a8d4' } })}
+          >
+            {duotone ? 'On' : 'Off'}
+          </Button>
+        </div>
+        {duotone && (
+          <div className="flex flex-wrap gap-2">
+            <ColorField
+              label="Shadows"
+              value={duotone.shadows}
+              onChange={(shadows) => adjust({ duotone: { ...duotone, shadows } })}
+            />
+            <ColorField
+              label="Highlights"
+              value={duotone.highlights}
+              onChange={(highlights) => adjust({ duotone: { ...duotone, highlights } })}
+            />
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-1">
+        <Button
+          type="button"
+          size="icon"
+          variant={layer.flipX ? 'secondary' : 'ghost'}
+          title="Flip horizontally"
+          onClick={() => onChange({ flipX: !layer.flipX })}
+        >
+          <FlipHorizontal className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant={layer.flipY ? 'secondary' : 'ghost'}
+          title="Flip vertically"
+          onClick={() => onChange({ flipY: !layer.flipY })}
+        >
+          <FlipVertical className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useRef } from 'react';
+import NextImage from 'next/image';
+import { Check } from 'lucide-react';
+import { Button } from './ui/button';
+import type { ImageCrop, ImageLayer } from '@/lib/poster/document';
+import { imageLayout, panCrop, zoomCrop, type Rect } from '@/lib/poster/image';
+import { frameBorderImage, frameMaskImage } from '@/lib/poster/frames';
+import { useAdjustedImage } from '@/hooks/use-adjusted-image';
+
+const ZOOM_STEP = 1.1;
+
+function rectCss(rect: Rect) {
+  return { left: rect.left, top: rect.top, width: rect.width, height: rect.height };
+}
+
+interface ImageLayerContentProps {
+  layer: ImageLayer;
+  url: string | undefined;
+  // Crop mode: dragging pans the crop and the wheel zooms it, instead of moving the layer.
+  editing: boolean;
+  // The viewport zoom; pointer movement is divided by it to get canvas pixels.
+  scale: number;
+  onCropChange: (crop: ImageCrop) => void;
+  onStopEditing: () => void;
+}
+
+export default function ImageLayerContent({
+  layer,
+  url,
+  editing,
+  scale,
+  onCropChange,
+  onStopEditing,
+}: ImageLayerContentProps) {
+  const adjustedUrl = useAdjustedImage(url, layer.adjustments, layer.crop);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Pointer events can arrive faster than re-renders, so track the crop we last sent.
+  const cropRef = useRef(layer.crop);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+  const { content, image } = imageLayout(layer);
+
+  useEffect(() => {
+    cropRef.current = layer.crop;
+  }, [layer.crop]);
+
+  const updateCrop = (crop: ImageCrop) => {
+    cropRef.current = crop;
+    onCropChange(crop);
+  };
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!editing || !container) return;
+
+    // React registers wheel listeners as passive, which cannot stop the page from scrolling.
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      // Keep the viewport around the poster from zooming or panning as well.
+      event.stopPropagation();
+      updateCrop(zoomCrop(cropRef.current, event.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP));
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onStopEditing();
+    };
+    container.addEventListener('wheel', onWheel, { passive: false });
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      container.removeEventListener('wheel', onWheel);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  });
+
+  if (!adjustedUrl) {
+    return <div className="h-full w-full bg-gray-200" />;
+  }
+
+  const flip = `scale(${layer.flipX ? -1 : 1}, ${layer.flipY ? -1 : 1})`;
+  const mask = frameMaskImage(layer.frame, layer.width, layer.height);
+  const border = frameBorderImage(layer.frame, layer.width, layer.height);
+
+  return (
+    <div
+      ref={containerRef}
+      className={editing ? 'relative h-full w-full cursor-grab' : 'relative h-full w-full'}
+      onPointerDown={(event) => {
+        if (!editing) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { x: event.clientX, y: event.clientY };
+      }}
+      onPointerMove={(event) => {
+        const start = dragRef.current;
+        if (!editing || !start) return;
+        dragRef.current = { x: event.clientX, y: event.clientY };
+        const crop = cropRef.current;
+        // Dragging right reveals more of the left side, so the crop moves the other way.
+        const flipX = layer.flipX ? -1 : 1;
+        const flipY = layer.flipY ? -1 : 1;
+        updateCrop(
+          panCrop(
+            crop,
+            (-(event.clientX - start.x) * flipX * crop.width) / (content.width * scale),
+            (-(event.clientY - start.y) * flipY * crop.height) / (content.height * scale)
+          )
+        );
+      }}
+      onPointerUp={() => {
+        dragRef.current = null;
+      }}
+    >
+      {editing && (
+        <div data-editor-chrome className="pointer-events-none absolute opacity-30" style={rectCss(content)}>
+          <div className="absolute inset-0" style={{ transform: flip }}>
+            <NextImage
+              src={adjustedUrl}
+              alt=""
+              width={layer.naturalWidth}
+              height={layer.naturalHeight}
+              className="absolute max-w-none"
+              style={rectCss(image)}
+            />
+          </div>
+        </div>
+      )}
+      <div
+        className="absolute inset-0"
+        style={
+          mask ? { WebkitMaskImage: mask, maskImage: mask, WebkitMaskSize: '100% 100%', maskSize: '100% 100%' } : undefined
+        }
+      >
+        <div className="absolute overflow-hidden" style={{ ...rectCss(content), transform: flip }}>
+          <NextImage
+            src={adjustedUrl}
+            alt={layer.name}
+            width={layer.naturalWidth}
+            height={layer.naturalHeight}
+            className="absolute max-w-none"
+            style={rectCss(image)}
+            draggable={false}
+          />
+        </div>
+      </div>
+      {border && (
+        <div className="pointer-events-none absolute inset-0" style={{ backgroundImage: border, backgroundSize: '100% 100%' }} />
+      )}
+      {editing && (
+        <div
+          data-editor-chrome
+          className="absolute left-0 top-0 z-10 m-1 flex items-center gap-2 rounded-md border bg-white p-1 pl-2 text-xs text-black shadow"
+          onPointerDown={(event) => event.stopPropagation()}
+        >
+          Drag to pan, scroll to zoom
+          <Button type="button" size="icon" variant="ghost" className="h-6 w-6" title="Done" onClick={onStopEditing}>
+            <Check className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
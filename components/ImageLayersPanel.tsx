@@ -0,0 +1,116 @@
+"use client";
+
+import { useRef } from 'react';
+import { ArrowDown, ArrowUp, Copy, ImagePlus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import type { ImageLayer } from '@/lib/poster/document';
+
+interface ImageLayersPanelProps {
+  // In document order, bottom to top.
+  layers: ImageLayer[];
+  assetUrls: Record<string, string>;
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (files: File[]) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBringForward: (id: string) => void;
+  onSendBackward: (id: string) => void;
+}
+
+export default function ImageLayersPanel({
+  layers,
+  assetUrls,
+  selectedId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onBringForward,
+  onSendBackward,
+}: ImageLayersPanelProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const topFirst = [...layers].reverse();
+
+  return (
+    <div className="space-y-3">
+      <Button type="button" variant="outline" size="sm" onClick={() => inputRef.current?.click()}>
+        <ImagePlus className="mr-1 h-3 w-3" /> Add images
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="image/*"
+        multiple
+        className="hidden"
+        onChange={(event) => {
+          const files = Array.from(event.target.files ?? []);
+          event.target.value = '';
+          if (files.length > 0) onAdd(files);
+        }}
+      />
+      {topFirst.length === 0 && <p className="text-sm text-muted-foreground">No image layers yet.</p>}
+      <ul className="space-y-2">
+        {topFirst.map((layer, index) => (
+          <li
+            key={layer.id}
+            className={cn(
+              'flex items-center gap-2 rounded-md border p-2',
+              layer.id === selectedId && 'border-sky-500'
+            )}
+            onClick={() => onSelect(layer.id)}
+          >
+            <span
+              className="h-8 w-8 shrink-0 rounded border bg-gray-200 bg-cover bg-center"
+              style={assetUrls[layer.assetId] ? { backgroundImage: `url("${assetUrls[layer.assetId]}")` } : undefined}
+            />
+            <span className="flex-1 truncate text-sm font-medium">{layer.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Bring forward"
+              disabled={index === 0}
+              onClick={() => onBringForward(layer.id)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Send backward"
+              disabled={index === topFirst.length - 1}
+              onClick={() => onSendBackward(layer.id)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Duplicate"
+              onClick={() => onDuplicate(layer.id)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Delete"
+              onClick={() => onDelete(layer.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuShortcut,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from './ui/context-menu';
+import {
+  ALIGN_EDGES,
+  DISTRIBUTE_AXES,
+  type AlignEdge,
+  type DistributeAxis,
+} from '@/lib/poster/arrange';
+
+interface LayerContextMenuProps {
+  children: ReactNode;
+  unitCount: number;
+  canUngroup: boolean;
+  onAlign: (edge: AlignEdge) => void;
+  onDistribute: (axis: DistributeAxis) => void;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onDelete: () => void;
+}
+
+// The right-click menu on the poster, acting on the current selection.
+export default function LayerContextMenu({
+  children,
+  unitCount,
+  canUngroup,
+  onAlign,
+  onDistribute,
+  onGroup,
+  onUngroup,
+  onDelete,
+}: LayerContextMenuProps) {
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>{children}</ContextMenuTrigger>
+      <ContextMenuContent className="w-56">
+        <ContextMenuItem disabled={unitCount < 2} onSelect={onGroup}>
+          Group
+          <ContextMenuShortcut>Ctrl+G</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuItem disabled={!canUngroup} onSelect={onUngroup}>
+          Ungroup
+          <ContextMenuShortcut>Ctrl+Shift+G</ContextMenuShortcut>
+        </ContextMenuItem>
+        <ContextMenuSeparator />
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={unitCount === 0}>Align</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            {ALIGN_EDGES.map(({ value, label }) => (
+              <ContextMenuItem key={value} onSelect={() => onAlign(value)}>
+                {label}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSub>
+          <ContextMenuSubTrigger disabled={unitCount < 3}>Distribute</ContextMenuSubTrigger>
+          <ContextMenuSubContent>
+            {DISTRIBUTE_AXES.map(({ value, label }) => (
+              <ContextMenuItem key={value} onSelect={() => onDistribute(value)}>
+                {label}
+              </ContextMenuItem>
+            ))}
+          </ContextMenuSubContent>
+        </ContextMenuSub>
+        <ContextMenuSeparator />
+        <ContextMenuItem disabled={unitCount === 0} onSelect={onDelete}>
+          Delete
+        </ContextMenuItem>
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
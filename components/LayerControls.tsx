@@ -0,0 +1,124 @@
+"use client";
+
+import { RotateCcw, RotateCw } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import SliderField from './SliderField';
+import type { BlendMode, PosterLayer } from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+import { ROTATION_SNAP_DEGREES, normalizeRotation, snapRotation } from '@/lib/poster/geometry';
+
+const degrees = (value: number) => `${value}°`;
+
+const BLEND_MODES: { value: BlendMode; label: string }[] = [
+  { value: 'normal', label: 'Normal' },
+  { value: 'multiply', label: 'Multiply' },
+  { value: 'screen', label: 'Screen' },
+  { value: 'overlay', label: 'Overlay' },
+  { value: 'darken', label: 'Darken' },
+  { value: 'lighten', label: 'Lighten' },
+  { value: 'color-dodge', label: 'Color dodge' },
+  { value: 'color-burn', label: 'Color burn' },
+  { value: 'hard-light', label: 'Hard light' },
+  { value: 'soft-light', label: 'Soft light' },
+  { value: 'difference', label: 'Difference' },
+  { value: 'exclusion', label: 'Exclusion' },
+  { value: 'hue', label: 'Hue' },
+  { value: 'saturation', label: 'Saturation' },
+  { value: 'color', label: 'Color' },
+  { value: 'luminosity', label: 'Luminosity' },
+];
+
+interface LayerControlsProps {
+  layer: PosterLayer;
+  onChange: (changes: LayerChanges) => void;
+}
+
+export default function LayerControls({ layer, onChange }: LayerControlsProps) {
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Layer · {layer.name}</h2>
+      <SliderField
+        label="Opacity"
+        value={layer.opacity}
+        min={0}
+        max={1}
+        step={0.05}
+        format={(value) => `${Math.round(value * 100)}%`}
+        onChange={(opacity) => onChange({ opacity })}
+      />
+      <div className="space-y-2">
+        <Label>Blend mode</Label>
+        <Select value={layer.blendMode} onValueChange={(blendMode) => onChange({ blendMode: blendMode as BlendMode })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {BLEND_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="flex items-end gap-2">
+        <div className="flex-1">
+          <SliderField
+            label="Rotation"
+            value={layer.rotation}
+            min={-180}
+            max={180}
+            format={degrees}
+            onChange={(rotation) => onChange({ rotation })}
+          />
+        </div>
+        <Input
+          type="number"
+          value={layer.rotation}
+          onChange={(event) => {
+            const rotation = Number(event.target.value);
+            if (Number.isFinite(rotation)) onChange({ rotation: normalizeRotation(rotation) });
+          }}
+          className="w-20"
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          title={`Rotate ${ROTATION_SNAP_DEGREES}° left`}
+          onClick={() => onChange({ rotation: snapRotation(layer.rotation - ROTATION_SNAP_DEGREES) })}
+        >
+          <RotateCcw className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          title={`Rotate ${ROTATION_SNAP_DEGREES}° right`}
+          onClick={() => onChange({ rotation: snapRotation(layer.rotation + ROTATION_SNAP_DEGREES) })}
+        >
+          <RotateCw className="h-4 w-4" />
+        </Button>
+      </div>
+      <SliderField
+        label="Skew horizontal"
+        value={layer.skewX}
+        min={-60}
+        max={60}
+        format={degrees}
+        onChange={(skewX) => onChange({ skewX })}
+      />
+      <SliderField
+        label="Skew vertical"
+        value={layer.skewY}
+        min={-60}
+        max={60}
+        format={degrees}
+        onChange={(skewY) => onChange({ skewY })}
+      />
+    </div>
+  );
+}
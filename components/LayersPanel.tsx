@@ -0,0 +1,150 @@
+"use client";
+
+import { useState } from 'react';
+import {
+  Eye,
+  EyeOff,
+  GripVertical,
+  Image as ImageIcon,
+  Lock,
+  LockOpen,
+  QrCode,
+  Shapes,
+  Smile,
+  Type,
+  type LucideIcon,
+} from 'lucide-react';
+import { Input } from './ui/input';
+import { ScrollArea } from './ui/scroll-area';
+import { Toggle } from './ui/toggle';
+import { cn } from '@/lib/utils';
+import type { LayerGroup, PosterLayer, PosterLayerType } from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+
+const LAYER_ICONS: Record<PosterLayerType, LucideIcon> = {
+  text: Type,
+  image: ImageIcon,
+  shape: Shapes,
+  icon: Smile,
+  qr: QrCode,
+};
+
+// Past this many rows the list scrolls instead of growing.
+const MAX_VISIBLE_ROWS = 8;
+
+interface LayersPanelProps {
+  // In document order, bottom to top.
+  layers: PosterLayer[];
+  groups: LayerGroup[];
+  selectedIds: string[];
+  // `additive` is set while Shift is held, adding the layer to the selection or taking it out.
+  onSelect: (id: string, additive: boolean) => void;
+  // Moves the layer to `index` in document order.
+  onReorder: (id: string, index: number) => void;
+  onChange: (id: string, changes: LayerChanges) => void;
+}
+
+// Every layer, topmost first: drag rows to restack them, double-click a name to rename it.
+export default function LayersPanel({ layers, groups, selectedIds, onSelect, onReorder, onChange }: LayersPanelProps) {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropId, setDropId] = useState<string | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const topFirst = [...layers].reverse();
+
+  const finishRenaming = () => {
+    const name = renaming?.name.trim();
+    if (renaming && name && name !== layers.find((layer) => layer.id === renaming.id)?.name) {
+      onChange(renaming.id, { name });
+    }
+    setRenaming(null);
+  };
+
+  return (
+    <ScrollArea className={topFirst.length > MAX_VISIBLE_ROWS ? 'h-96' : undefined}>
+      <ul className="space-y-1">
+        {topFirst.map((layer) => {
+          const Icon = LAYER_ICONS[layer.type];
+          const group = groups.find((candidate) => candidate.id === layer.groupId);
+          return (
+            <li
+              key={layer.id}
+              draggable={renaming?.id !== layer.id}
+              className={cn(
+                'flex items-center gap-2 rounded-md border p-1 pl-2',
+                selectedIds.includes(layer.id) && 'border-sky-500',
+                dropId === layer.id && draggedId !== layer.id && 'border-dashed border-sky-500 bg-sky-50',
+                draggedId === layer.id && 'opacity-50'
+              )}
+              onClick={(event) => onSelect(layer.id, event.shiftKey)}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = 'move';
+                setDraggedId(layer.id);
+              }}
+              onDragOver={(event) => {
+                if (!draggedId) return;
+                event.preventDefault();
+                setDropId(layer.id);
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                // The dragged layer takes the place of the one it is dropped on.
+                if (draggedId && draggedId !== layer.id) onReorder(draggedId, layers.indexOf(layer));
+                setDraggedId(null);
+                setDropId(null);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropId(null);
+              }}
+            >
+              <GripVertical className="h-4 w-4 shrink-0 cursor-grab text-muted-foreground" />
+              <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {renaming?.id === layer.id ? (
+                <Input
+                  autoFocus
+                  className="h-7 flex-1"
+                  value={renaming.name}
+                  onChange={(event) => setRenaming({ id: layer.id, name: event.target.value })}
+                  onBlur={finishRenaming}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') finishRenaming();
+                    if (event.key === 'Escape') setRenaming(null);
+                  }}
+                />
+              ) : (
+                <span
+                  className={cn('flex-1 truncate text-sm font-medium', !layer.visible && 'text-muted-foreground')}
+                  title="Double-click to rename"
+                  onDoubleClick={() => setRenaming({ id: layer.id, name: layer.name })}
+                >
+                  {layer.name}
+                </span>
+              )}
+              {group && <span className="max-w-[5rem] truncate text-xs text-muted-foreground">{group.name}</span>}
+              <Toggle
+                size="sm"
+                className="h-7 w-7 p-0"
+                title={layer.visible ? 'Hide' : 'Show'}
+                pressed={!layer.visible}
+                onClick={(event) => event.stopPropagation()}
+                onPressedChange={(hidden) => onChange(layer.id, { visible: !hidden })}
+              >
+                {layer.visible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+              </Toggle>
+              <Toggle
+                size="sm"
+                className="h-7 w-7 p-0"
+                title={layer.locked ? 'Unlock' : 'Lock'}
+                pressed={layer.locked}
+                onClick={(event) => event.stopPropagation()}
+                onPressedChange={(locked) => onChange(layer.id, { locked })}
+              >
+                {layer.locked ? <Lock className="h-4 w-4" /> : <LockOpen className="h-4 w-4" />}
+              </Toggle>
+            </li>
+          );
+        })}
+      </ul>
+    </ScrollArea>
+  );
+}
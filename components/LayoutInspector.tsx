@@ -0,0 +1,139 @@
+"use client";
+
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import SliderField from './SliderField';
+import type { BaselineGrid, ColumnGrid, PosterDocument, PosterLayout, RulerUnit } from '@/lib/poster/document';
+import { formatLength, RULER_UNITS } from '@/lib/poster/layout';
+
+interface LayoutInspectorProps {
+  canvas: PosterDocument['canvas'];
+  layout: PosterLayout;
+  onChange: (layout: PosterLayout) => void;
+}
+
+export default function LayoutInspector({ canvas, layout, onChange }: LayoutInspectorProps) {
+  const { unit, baseline, columns, guides } = layout;
+  const length = (value: number) => formatLength(value, unit);
+  const setColumns = (changes: Partial<ColumnGrid>) =>
+    onChange({ ...layout, columns: { ...columns, ...changes } });
+  const setBaseline = (changes: Partial<BaselineGrid>) =>
+    onChange({ ...layout, baseline: { ...baseline, ...changes } });
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Rulers & grids</h2>
+
+      <div className="space-y-2">
+        <Label>Ruler units</Label>
+        <Select value={unit} onValueChange={(value) => onChange({ ...layout, unit: value as RulerUnit })}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RULER_UNITS.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label>Guides</Label>
+        <div className="flex items-center gap-2">
+          <span className="text-xs text-muted-foreground">
+            {guides.length === 0 ? 'Drag out of a ruler' : `${guides.length} placed`}
+          </span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={guides.length === 0}
+            onClick={() => onChange({ ...layout, guides: [] })}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Columns</Label>
+          <Button
+            type="button"
+            variant={columns.enabled ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setColumns({ enabled: !columns.enabled })}
+          >
+            {columns.enabled ? 'On' : 'Off'}
+          </Button>
+        </div>
+        {columns.enabled && (
+          <>
+            <SliderField
+              label="Count"
+              value={columns.count}
+              min={1}
+              max={24}
+              onChange={(count) => setColumns({ count })}
+            />
+            <SliderField
+              label="Gutter"
+              value={columns.gutter}
+              min={0}
+              max={Math.max(1, Math.round(canvas.width / 10))}
+              format={length}
+              onChange={(gutter) => setColumns({ gutter })}
+            />
+          </>
+        )}
+        {/* Margins snap even with the columns hidden. */}
+        <SliderField
+          label="Margin"
+          value={columns.margin}
+          min={0}
+          max={Math.max(1, Math.round(canvas.width / 4))}
+          format={length}
+          onChange={(margin) => setColumns({ margin })}
+        />
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label>Baseline grid</Label>
+          <Button
+            type="button"
+            variant={baseline.enabled ? 'secondary' : 'outline'}
+            size="sm"
+            onClick={() => setBaseline({ enabled: !baseline.enabled })}
+          >
+            {baseline.enabled ? 'On' : 'Off'}
+          </Button>
+        </div>
+        {baseline.enabled && (
+          <>
+            <SliderField
+              label="Spacing"
+              value={baseline.spacing}
+              min={2}
+              max={Math.max(4, Math.round(canvas.height / 10))}
+              format={length}
+              onChange={(spacing) => setBaseline({ spacing })}
+            />
+            <SliderField
+              label="Offset"
+              value={baseline.offset}
+              min={0}
+              max={Math.max(1, baseline.spacing)}
+              format={length}
+              onChange={(offset) => setBaseline({ offset })}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
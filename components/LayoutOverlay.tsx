@@ -0,0 +1,85 @@
+"use client";
+
+import { useRef } from 'react';
+import type { PosterDocument, PosterLayout } from '@/lib/poster/document';
+import { columnEdges } from '@/lib/poster/layout';
+
+interface LayoutOverlayProps {
+  canvas: PosterDocument['canvas'];
+  layout: PosterLayout;
+  // The viewport zoom; pointer movement is divided by it to get canvas pixels.
+  scale: number;
+  onChange: (layout: PosterLayout) => void;
+}
+
+// Column and baseline grids and the guides, drawn over the poster. Guides can be dragged; one
+// dragged off the canvas is removed.
+export default function LayoutOverlay({ canvas, layout, scale, onChange }: LayoutOverlayProps) {
+  const dragRef = useRef<{ index: number; pointer: number; position: number } | null>(null);
+  const { baseline, columns, guides } = layout;
+
+  const moveGuide = (index: number, position: number) =>
+    onChange({
+      ...layout,
+      guides: guides.map((guide, other) => (other === index ? { ...guide, position } : guide)),
+    });
+
+  return (
+    <div data-editor-chrome className="pointer-events-none absolute inset-0 z-30">
+      {columns.enabled &&
+        columnEdges(canvas, columns).map((column, index) => (
+          <div
+            key={`column-${index}`}
+            className="absolute inset-y-0 bg-rose-500/10 outline outline-1 outline-rose-500/30"
+            style={{ left: column.left, width: column.right - column.left }}
+          />
+        ))}
+      {baseline.enabled && (
+        <div
+          className="absolute inset-0"
+          style={{
+            backgroundImage: `repeating-linear-gradient(to bottom, rgba(14, 165, 233, 0.35) 0 1px, transparent 1px ${
+              baseline.spacing
+            }px)`,
+            backgroundPosition: `0 ${baseline.offset}px`,
+          }}
+        />
+      )}
+      {guides.map((guide, index) => (
+        <div
+          key={`guide-${index}`}
+          className={`pointer-events-auto absolute flex justify-center ${
+            guide.axis === 'x'
+              ? 'inset-y-0 w-2 -translate-x-1/2 cursor-col-resize'
+              : 'inset-x-0 h-2 -translate-y-1/2 cursor-row-resize flex-col'
+          }`}
+          style={guide.axis === 'x' ? { left: guide.position } : { top: guide.position }}
+          title="Drag to move. Drag off the poster to remove."
+          onPointerDown={(event) => {
+            event.stopPropagation();
+            event.currentTarget.setPointerCapture(event.pointerId);
+            const pointer = guide.axis === 'x' ? event.clientX : event.clientY;
+            dragRef.current = { index, pointer, position: guide.position };
+          }}
+          onPointerMove={(event) => {
+            const drag = dragRef.current;
+            if (!drag) return;
+            const pointer = guide.axis === 'x' ? event.clientX : event.clientY;
+            moveGuide(drag.index, Math.round(drag.position + (pointer - drag.pointer) / scale));
+          }}
+          onPointerUp={() => {
+            const drag = dragRef.current;
+            dragRef.current = null;
+            if (!drag) return;
+            const size = guide.axis === 'x' ? canvas.width : canvas.height;
+            if (guide.position < 0 || guide.position > size) {
+              onChange({ ...layout, guides: guides.filter((_, other) => other !== drag.index) });
+            }
+          }}
+        >
+          <div className={guide.axis === 'x' ? 'h-full w-px bg-cyan-500' : 'h-px w-full bg-cyan-500'} />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import type { Bounds } from '@/lib/poster/geometry';
+
+// The rubber-band rectangle drawn while dragging across the empty poster.
+export default function Marquee({ bounds }: { bounds: Bounds }) {
+  return (
+    <div
+      data-editor-chrome
+      className="pointer-events-none absolute z-50 border border-sky-500 bg-sky-500/10"
+      style={{
+        left: bounds.left,
+        top: bounds.top,
+        width: bounds.right - bounds.left,
+        height: bounds.bottom - bounds.top,
+      }}
+    />
+  );
+}
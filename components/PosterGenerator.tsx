@@ -1,75 +1,680 @@
 "use client";
 
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useCallback, useMemo, type PointerEvent } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { QRCodeSVG } from 'qrcode.react';
-import { toPng } from 'html-to-image';
-import Draggable from 'react-draggable';
-import { Resizable } from 're-resizable';
+import Link from 'next/link';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { Label } from './ui/label';
 import { useToast } from '../hooks/use-toast';
-import { Download } from 'lucide-react';
-import NextImage from 'next/image';
+import { usePosterHistory } from '../hooks/use-poster-history';
+import { usePosterAssets } from '../hooks/use-poster-assets';
+import { useDraftAutosave } from '../hooks/use-draft-autosave';
+import { usePosterFonts } from '../hooks/use-poster-fonts';
+import { Download, FileDown, FileUp, Library, Magnet, Save } from 'lucide-react';
+import PosterLayerView from './PosterLayerView';
+import HistoryPanel from './HistoryPanel';
+import TextLayersPanel from './TextLayersPanel';
+import TextInspector from './TextInspector';
+import ImageLayersPanel from './ImageLayersPanel';
+import ImageInspector from './ImageInspector';
+import BackgroundInspector from './BackgroundInspector';
+import ShapeLayersPanel from './ShapeLayersPanel';
+import ShapeInspector from './ShapeInspector';
+import IconLayersPanel from './IconLayersPanel';
+import IconInspector from './IconInspector';
+import SnapGuides from './SnapGuides';
+import LayerControls from './LayerControls';
+import LayersPanel from './LayersPanel';
+import ArrangeToolbar from './ArrangeToolbar';
+import LayerContextMenu from './LayerContextMenu';
+import SelectionBox from './SelectionBox';
+import Marquee from './Marquee';
+import CanvasViewport from './CanvasViewport';
+import Rulers from './Rulers';
+import LayoutOverlay from './LayoutOverlay';
+import LayoutInspector from './LayoutInspector';
+import ProjectNameDialog from './ProjectNameDialog';
+import {
+  createDefaultDocument,
+  createGroupId,
+  createImageLayer,
+  createLayerId,
+  createIconLayer,
+  createShapeLayer,
+  createStickerLayer,
+  createTextLayer,
+  findLayer,
+  type IconLayer,
+  type ImageLayer,
+  type PosterDocument,
+  type PosterLayer,
+  type PosterSticker,
+  type ShapeLayer,
+  type TextLayer,
+} from '@/lib/poster/document';
+import { createAsset, loadImageSize, referencedAssets } from '@/lib/poster/assets';
+import { deleteDraft, loadDraft, type PosterDraft } from '@/lib/poster/storage';
+import { createProjectId, getProject, saveProject } from '@/lib/poster/library';
+import {
+  downloadUrl,
+  renderPosterPdf,
+  renderPosterPng,
+  renderPosterSvg,
+  renderPosterThumbnail,
+  type PosterRenderOptions,
+} from '@/lib/poster/export';
+import {
+  buildCustomFontCss,
+  fontFamilyFromFileName,
+  fontFileType,
+  fontOptions,
+  loadUsedGlyphs,
+} from '@/lib/poster/fonts';
+import { exportPosterArchive, importPosterArchive, POSTER_FILE_EXTENSION } from '@/lib/poster/archive';
+import { replaceText, spansToText } from '@/lib/poster/rich-text';
+import { parseSvgFrameShape } from '@/lib/poster/frames';
+import { backgroundCss } from '@/lib/poster/background';
+import { snapLayerPosition, type SnapResult } from '@/lib/poster/snapping';
+import { dragBounds, layerBounds, unionBounds, type Bounds } from '@/lib/poster/geometry';
+import { pickLayerIds, selectionUnits } from '@/lib/poster/groups';
+import { alignLayers, distributeLayers, type AlignEdge, type DistributeAxis } from '@/lib/poster/arrange';
+import type { Viewport } from '@/lib/poster/viewport';
+import { isEditableTarget } from '@/lib/utils';
 
 const formSchema = z.object({
-  title: z.string().min(1, { message: "Title is required" }),
-  subtitle: z.string().optional(),
   url: z.string().url({ message: "Invalid URL" }),
   image: z.any(),
   width: z.string().min(1, "Width must be a positive number").transform((val) => Number(val)),
   height: z.string().min(1, "Height must be a positive number").transform((val) => Number(val)),
 });
 
+// A drag of the selection in progress. `x` and `y` are how far the pointer alone has moved it;
+// snapping is applied on top of that, so a snapped selection breaks free once the pointer moves far enough.
+interface SelectionDrag {
+  x: number;
+  y: number;
+  // Where the selection is shown, relative to where it started.
+  offset: { x: number; y: number } | null;
+  // Shift was held when the drag started.
+  additive: boolean;
+}
+
+const overlaps = (a: Bounds, b: Bounds) =>
+  a.left < b.right && b.left < a.right && a.top < b.bottom && b.top < a.bottom;
+
+// The box around the selection, following it while it is dragged.
+function selectionBounds(layers: PosterLayer[], offset: { x: number; y: number } | null): Bounds {
+  const bounds = unionBounds(layers);
+  if (!offset) return bounds;
+  return {
+    left: bounds.left + offset.x,
+    top: bounds.top + offset.y,
+    right: bounds.right + offset.x,
+    bottom: bounds.bottom + offset.y,
+  };
+}
+
+function formValuesFromDocument(poster: PosterDocument) {
+  const qrCode = findLayer(poster, 'qr');
+
+  return {
+    url: qrCode?.type === 'qr' ? qrCode.value : '',
+    width: String(poster.canvas.width),
+    height: String(poster.canvas.height),
+    image: null,
+  };
+}
+
 export default function PosterGenerator() {
-  const [imagePreview, setImagePreview] = useState<string | null>(null);
+  const { poster, history, dispatch, undo, redo, jumpTo, reset: resetHistory } =
+    usePosterHistory(createDefaultDocument);
+  const { assets, urls: assetUrls, addAsset, replaceAssets } = usePosterAssets();
   const [generatedPoster, setGeneratedPoster] = useState<boolean>(false);
+  const [draftLoaded, setDraftLoaded] = useState<boolean>(false);
+  const [restoredDraftAt, setRestoredDraftAt] = useState<number | null>(null);
+  const [project, setProject] = useState<PosterDraft['project']>(undefined);
+  // The blank document a discarded draft was replaced with. Autosave waits until it is edited, or the
+  // discarded draft would come back as a blank one on the next load.
+  const [discardedDocument, setDiscardedDocument] = useState<PosterDocument | null>(null);
+  const [saveDialogOpen, setSaveDialogOpen] = useState<boolean>(false);
+  const [selectedLayerIds, setSelectedLayerIds] = useState<string[]>([]);
+  const [editingLayerId, setEditingLayerId] = useState<string | null>(null);
+  // Snapping is a per-session preference, so it is not saved with the poster.
+  const [snapEnabled, setSnapEnabled] = useState<boolean>(true);
+  const [snapGuides, setSnapGuides] = useState<Pick<SnapResult, 'guides' | 'distances'> | null>(null);
+  const [dragOffset, setDragOffset] = useState<{ x: number; y: number } | null>(null);
+  const [marquee, setMarquee] = useState<Bounds | null>(null);
+  // Zoom and pan are a view of the poster, not part of it, so they are not saved either.
+  const [viewport, setViewport] = useState<Viewport>({ zoom: 1, x: 0, y: 0 });
+  // The inspectors edit one layer at a time, so they only show for a selection of one.
+  const selectedLayerId = selectedLayerIds.length === 1 ? selectedLayerIds[0] : null;
+  const selectedLayer = selectedLayerId ? findLayer(poster, selectedLayerId) : undefined;
+  const selectedLayers = poster.layers.filter((layer) => selectedLayerIds.includes(layer.id));
+  // Locked layers stay put when the rest of the selection is dragged or scaled.
+  const movableLayers = selectedLayers.filter((layer) => !layer.locked);
+  const selectedUnits = selectionUnits(poster, selectedLayerIds);
+  const visibleLayers = poster.layers.filter((layer) => layer.visible);
+  const selectedGroupIds = selectedUnits.flatMap((unit) => (unit.groupId ? [unit.groupId] : []));
+  const textLayers = poster.layers.filter((layer): layer is TextLayer => layer.type === 'text');
+  const selectedTextLayer = textLayers.find((layer) => layer.id === selectedLayerId);
+  const imageLayers = poster.layers.filter((layer): layer is ImageLayer => layer.type === 'image');
+  const selectedImageLayer = imageLayers.find((layer) => layer.id === selectedLayerId);
+  const shapeLayers = poster.layers.filter((layer): layer is ShapeLayer => layer.type === 'shape');
+  const selectedShapeLayer = shapeLayers.find((layer) => layer.id === selectedLayerId);
+  const iconLayers = poster.layers.filter((layer): layer is IconLayer => layer.type === 'icon');
+  const selectedIconLayer = iconLayers.find((layer) => layer.id === selectedLayerId);
+  const customFrameShapes = imageLayers
+    .map((layer) => layer.frame.shape)
+    .filter((shape, index, shapes) => {
+      if (shape.type !== 'custom') return false;
+      return shapes.findIndex((other) => other.type === 'custom' && other.path === shape.path) === index;
+    });
+  // Dragging a layer re-renders the editor many times a second; the background only changes with itself.
+  const { background, canvas } = poster;
+  const backgroundStyle = useMemo(() => backgroundCss(background, canvas, assetUrls), [background, canvas, assetUrls]);
+  usePosterFonts(poster.fonts, assets);
+  const autosave = useDraftAutosave(poster, assets, project, draftLoaded && poster !== discardedDocument);
   const posterRef = useRef<HTMLDivElement>(null);
-  const titleRef = useRef<HTMLHeadingElement>(null);
-  const subtitleRef = useRef<HTMLHeadingElement>(null);
-  const qrCodeRef = useRef<HTMLDivElement>(null);
-  const imageRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<SelectionDrag | null>(null);
+  const marqueeRef = useRef<{ x: number; y: number; additive: boolean } | null>(null);
+  const scaleRef = useRef<{ bounds: Bounds; layers: PosterLayer[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // The group shortcuts act on the current selection, so they read the latest handlers from here.
+  const groupShortcutsRef = useRef<{ group: () => void; ungroup: () => void } | null>(null);
   const { toast } = useToast();
 
-  const [titlePosition, setTitlePosition] = useState({ x: 20, y: 20 });
-  const [subtitlePosition, setSubtitlePosition] = useState({ x: 20, y: 80 });
-  const [qrCodePosition, setQrCodePosition] = useState({ x: 20, y: 140 });
-  const [imagePosition, setImagePosition] = useState({ x: 0, y: 0 });
-  const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
-
-  const { register, handleSubmit, formState: { errors }, watch } = useForm({
+  const { register, handleSubmit, formState: { errors }, watch, reset } = useForm({
     resolver: zodResolver(formSchema),
-    defaultValues: {
-      title: "00",
-      subtitle: "新选项",
-      url: "https://sharegpt-one.vercel.app/",
-      width: "344",
-      height: "444",
-      image: null,
-    },
+    defaultValues: formValuesFromDocument(poster),
   });
 
-  const watchWidth = watch('width');
-  const watchHeight = watch('height');
+  const restoreForm = useCallback(
+    (document: PosterDocument) => reset(formValuesFromDocument(document)),
+    [reset]
+  );
+
+  useEffect(() => {
+    loadDraft()
+      .then((draft) => {
+        if (!draft) return;
+        replaceAssets(draft.assets);
+        restoreForm(resetHistory(draft.document, 'Restore draft'));
+        setRestoredDraftAt(draft.savedAt);
+        setProject(draft.project);
+        setGeneratedPoster(true);
+      })
+      .catch(() => {
+        toast({
+          title: "Error",
+          description: "Could not restore your saved draft.",
+          variant: "destructive",
+        });
+      })
+      .finally(() => setDraftLoaded(true));
+  }, [replaceAssets, restoreForm, resetHistory, toast]);
+
+  const discardDraft = () => {
+    deleteDraft().catch(() => undefined);
+    replaceAssets([]);
+    const document = resetHistory(createDefaultDocument());
+    restoreForm(document);
+    setDiscardedDocument(document);
+    setRestoredDraftAt(null);
+    setProject(undefined);
+    setGeneratedPoster(false);
+  };
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const key = event.key.toLowerCase();
+      if (!(event.ctrlKey || event.metaKey) || (key !== 'z' && key !== 'y')) return;
+      // Text fields keep their native undo.
+      if (isEditableTarget(event.target)) return;
+
+      event.preventDefault();
+      restoreForm(key === 'y' || event.shiftKey ? redo() : undo());
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo, restoreForm]);
+
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      const shortcuts = groupShortcutsRef.current;
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'g' || !shortcuts) return;
+      if (isEditableTarget(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) shortcuts.ungroup();
+      else shortcuts.group();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const subscription = watch((values, { name }) => {
+      switch (name) {
+        case 'url':
+          dispatch({ type: 'UPDATE_LAYER', id: 'qr', changes: { value: values.url ?? '' } });
+          break;
+        case 'width':
+        case 'height': {
+          const width = Number(values.width);
+          const height = Number(values.height);
+          if (width > 0 && height > 0) {
+            dispatch({ type: 'SET_CANVAS_SIZE', width, height });
+          }
+          break;
+        }
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [watch, dispatch]);
 
   const onSubmit = async (data: z.infer<typeof formSchema>) => {
-    const file = data.image[0];
+    const file = data.image?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setImagePreview(reader.result as string);
-        setGeneratedPoster(true);
-      };
-      reader.readAsDataURL(file);
+      const asset = createAsset(file);
+      const url = URL.createObjectURL(file);
+      try {
+        const { width, height } = await loadImageSize(url);
+        addAsset(asset);
+        dispatch({
+          type: 'ADD_LAYER',
+          index: 0,
+          layer: createImageLayer(
+            { assetId: asset.id, name: file.name, naturalWidth: width, naturalHeight: height },
+            poster.canvas,
+            'image'
+          ),
+        });
+      } catch {
+        toast({
+          title: "Error",
+          description: "Could not read the selected image.",
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+    setGeneratedPoster(true);
+  };
+
+  const uploadFont = async (file: File) => {
+    const fileType = fontFileType(file.name);
+    if (!fileType) {
+      toast({
+        title: "Error",
+        description: "Fonts must be TTF, OTF or WOFF2 files.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const family = fontFamilyFromFileName(file.name);
+    const blob = new Blob([file], { type: fileType.mimeType });
+    try {
+      await new FontFace(family, await blob.arrayBuffer()).load();
+    } catch {
+      toast({
+        title: "Error",
+        description: `"${file.name}" is not a readable font file.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const asset = createAsset(blob, file.name);
+    addAsset(asset);
+    dispatch({ type: 'ADD_FONT', font: { family, assetId: asset.id }, layerId: selectedTextLayer?.id });
+  };
+
+  const uploadFillImage = async (file: File) => {
+    if (!selectedTextLayer) return;
+    const url = URL.createObjectURL(file);
+    try {
+      await loadImageSize(url);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not read the selected image.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    const asset = createAsset(file);
+    addAsset(asset);
+    dispatch({
+      type: 'UPDATE_LAYER',
+      id: selectedTextLayer.id,
+      changes: { style: { ...selectedTextLayer.style, fill: { type: 'image', assetId: asset.id } } },
+    });
+  };
+
+  const uploadBackgroundImage = async (file: File) => {
+    const url = URL.createObjectURL(file);
+    try {
+      await loadImageSize(url);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not read the selected image.",
+        variant: "destructive",
+      });
+      return;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+
+    const asset = createAsset(file);
+    addAsset(asset);
+    dispatch({
+      type: 'SET_BACKGROUND',
+      background: { ...poster.background, fill: { type: 'image', assetId: asset.id, focalPoint: { x: 0.5, y: 0.5 } } },
+    });
+  };
+
+  const addImages = async (files: File[]) => {
+    for (const file of files) {
+      const asset = createAsset(file);
+      const url = URL.createObjectURL(file);
+      try {
+        const { width, height } = await loadImageSize(url);
+        addAsset(asset);
+        const layer = createImageLayer(
+          { assetId: asset.id, name: file.name, naturalWidth: width, naturalHeight: height },
+          poster.canvas
+        );
+        dispatch({ type: 'ADD_LAYER', layer });
+        selectLayer(layer.id);
+      } catch {
+        toast({
+          title: "Error",
+          description: `Could not read "${file.name}".`,
+          variant: "destructive",
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  };
+
+  const uploadStickers = async (files: File[]) => {
+    for (const file of files) {
+      if (file.type !== 'image/svg+xml' && file.type !== 'image/png') {
+        toast({
+          title: "Error",
+          description: `"${file.name}" is not an SVG or PNG image.`,
+          variant: "destructive",
+        });
+        continue;
+      }
+      const url = URL.createObjectURL(file);
+      try {
+        await loadImageSize(url);
+        const asset = createAsset(file);
+        addAsset(asset);
+        dispatch({ type: 'ADD_STICKER', sticker: { name: file.name.replace(/\.(svg|png)$/i, ''), assetId: asset.id } });
+      } catch {
+        toast({
+          title: "Error",
+          description: `Could not read "${file.name}".`,
+          variant: "destructive",
+        });
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }
+  };
+
+  const placeSticker = async (sticker: PosterSticker) => {
+    const url = assetUrls[sticker.assetId];
+    try {
+      if (!url) throw new Error('Missing sticker asset');
+      const { width, height } = await loadImageSize(url);
+      // SVGs without a size of their own report zero; place them square.
+      const layer = createStickerLayer(sticker, width || 1, height || 1, poster.canvas);
+      dispatch({ type: 'ADD_LAYER', layer });
+      selectLayer(layer.id);
+    } catch {
+      toast({
+        title: "Error",
+        description: `Could not place "${sticker.name}".`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const uploadFrameShape = async (file: File) => {
+    if (!selectedImageLayer) return;
+    try {
+      const shape = parseSvgFrameShape(await file.text(), file.name);
+      dispatch({
+        type: 'UPDATE_LAYER',
+        id: selectedImageLayer.id,
+        changes: { frame: { ...selectedImageLayer.frame, shape } },
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not read the SVG file.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Swaps a layer with its neighbour among layers of the same kind, e.g. the next text layer up.
+  const moveLayer = (siblings: PosterLayer[], id: string, direction: 1 | -1) => {
+    const index = siblings.findIndex((layer) => layer.id === id);
+    const neighbour = siblings[index + direction];
+    if (neighbour) {
+      dispatch({ type: 'REORDER_LAYER', id, index: poster.layers.indexOf(neighbour) });
+    }
+  };
+
+  // Clicking a layer on the canvas picks its whole group. Layers already selected stay selected,
+  // so the selection can be dragged from any of them.
+  const pickLayer = (id: string, additive: boolean) => {
+    const ids = pickLayerIds(poster, id);
+    if (id !== editingLayerId) setEditingLayerId(null);
+    if (!additive) {
+      if (!selectedLayerIds.includes(id)) setSelectedLayerIds(ids);
+      dragRef.current = { x: 0, y: 0, offset: null, additive };
+      return;
+    }
+    if (ids.every((layerId) => selectedLayerIds.includes(layerId))) {
+      setSelectedLayerIds(selectedLayerIds.filter((layerId) => !ids.includes(layerId)));
+      dragRef.current = null;
     } else {
-      setGeneratedPoster(true);
+      setSelectedLayerIds([...selectedLayerIds, ...ids.filter((layerId) => !selectedLayerIds.includes(layerId))]);
+      dragRef.current = { x: 0, y: 0, offset: null, additive };
+    }
+  };
+
+  // Moves the selection as one box around all of its layers, kept on the canvas and snapped.
+  const dragSelection = (deltaX: number, deltaY: number, free: boolean) => {
+    const drag = dragRef.current;
+    if (!drag || movableLayers.length === 0) return;
+    drag.x += deltaX;
+    drag.y += deltaY;
+    const bounds = unionBounds(movableLayers);
+    const box = {
+      x: bounds.left,
+      y: bounds.top,
+      width: bounds.right - bounds.left,
+      height: bounds.bottom - bounds.top,
+      rotation: 0,
+      skewX: 0,
+      skewY: 0,
+    };
+    const limits = dragBounds(box, poster.canvas);
+    let position = {
+      x: Math.min(limits.right, Math.max(limits.left, box.x + drag.x)),
+      y: Math.min(limits.bottom, Math.max(limits.top, box.y + drag.y)),
+    };
+    if (snapEnabled && !free) {
+      const others = poster.layers.filter((layer) => layer.visible && !movableLayers.includes(layer));
+      const snapped = snapLayerPosition(box, position.x, position.y, others, poster.canvas, poster.layout);
+      setSnapGuides(snapped);
+      position = snapped;
+    } else {
+      setSnapGuides(null);
     }
+    drag.offset = { x: position.x - box.x, y: position.y - box.y };
+    setDragOffset(drag.offset);
   };
 
-  const downloadPoster = () => {
+  const endDrag = (id: string) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setSnapGuides(null);
+    setDragOffset(null);
+    if (!drag) return;
+    const { offset } = drag;
+    if (offset) {
+      dispatch({
+        type: 'MOVE_LAYERS',
+        moves: movableLayers.map((layer) => ({ id: layer.id, x: layer.x + offset.x, y: layer.y + offset.y })),
+      });
+    } else if (!drag.additive) {
+      // A plain click inside a larger selection narrows it down to what was clicked.
+      setSelectedLayerIds(pickLayerIds(poster, id));
+    }
+  };
+
+  const startMarquee = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const origin = event.currentTarget.getBoundingClientRect();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    marqueeRef.current = {
+      x: (event.clientX - origin.left) / viewport.zoom,
+      y: (event.clientY - origin.top) / viewport.zoom,
+      additive: event.shiftKey,
+    };
+  };
+
+  const updateMarquee = (event: PointerEvent<HTMLDivElement>) => {
+    const start = marqueeRef.current;
+    if (!start) return;
+    const origin = event.currentTarget.getBoundingClientRect();
+    const x = (event.clientX - origin.left) / viewport.zoom;
+    const y = (event.clientY - origin.top) / viewport.zoom;
+    // Ignore the jitter of a click.
+    if (!marquee && Math.hypot(x - start.x, y - start.y) * viewport.zoom < 3) return;
+    setMarquee({
+      left: Math.min(start.x, x),
+      top: Math.min(start.y, y),
+      right: Math.max(start.x, x),
+      bottom: Math.max(start.y, y),
+    });
+  };
+
+  // Selects every layer the marquee touches, with the rest of its group. A click on the empty
+  // poster clears the selection instead.
+  const endMarquee = () => {
+    const start = marqueeRef.current;
+    marqueeRef.current = null;
+    setMarquee(null);
+    if (!start) return;
+    setEditingLayerId(null);
+    const hits = marquee
+      ? poster.layers
+          .filter((layer) => layer.visible && !layer.locked && overlaps(layerBounds(layer), marquee))
+          .flatMap((layer) => pickLayerIds(poster, layer.id))
+      : [];
+    const base = start.additive ? selectedLayerIds : [];
+    setSelectedLayerIds([...base, ...hits.filter((id, index) => !base.includes(id) && hits.indexOf(id) === index)]);
+  };
+
+  // Scales every selected layer around the top-left of the selection, moving each by its centre
+  // so rotated layers keep their place in the arrangement.
+  const scaleSelection = (scaleX: number, scaleY: number) => {
+    const start = scaleRef.current;
+    if (!start) return;
+    const { bounds, layers } = start;
+    dispatch({
+      type: 'UPDATE_LAYERS',
+      updates: layers.map((layer) => {
+        const width = layer.width * scaleX;
+        const height = layer.height * scaleY;
+        const centerX = bounds.left + (layer.x + layer.width / 2 - bounds.left) * scaleX;
+        const centerY = bounds.top + (layer.y + layer.height / 2 - bounds.top) * scaleY;
+        return { id: layer.id, changes: { x: centerX - width / 2, y: centerY - height / 2, width, height } };
+      }),
+    });
+  };
+
+  const alignSelection = (edge: AlignEdge) =>
+    dispatch({ type: 'MOVE_LAYERS', moves: alignLayers(poster, selectedLayerIds, edge) });
+
+  const distributeSelection = (axis: DistributeAxis) =>
+    dispatch({ type: 'MOVE_LAYERS', moves: distributeLayers(poster, selectedLayerIds, axis) });
+
+  const groupSelection = () => {
+    if (selectedUnits.length < 2) return;
+    dispatch({
+      type: 'GROUP_LAYERS',
+      ids: selectedLayerIds,
+      group: { id: createGroupId(), name: `Group ${poster.groups.length + 1}` },
+    });
+  };
+
+  const ungroupSelection = () => {
+    if (selectedGroupIds.length > 0) dispatch({ type: 'UNGROUP', groupIds: selectedGroupIds });
+  };
+
+  useEffect(() => {
+    groupShortcutsRef.current = { group: groupSelection, ungroup: ungroupSelection };
+  });
+
+  const deleteSelection = () => {
+    dispatch({ type: 'REMOVE_LAYERS', ids: selectedLayerIds });
+    setSelectedLayerIds([]);
+    setEditingLayerId(null);
+  };
+
+  const selectLayer = (id: string | null) => {
+    setSelectedLayerIds(id ? [id] : []);
+    if (id !== editingLayerId) setEditingLayerId(null);
+  };
+
+  // Unlike a click on the canvas, the layers panel adds or removes single layers, even inside groups.
+  const toggleLayerSelection = (id: string) => {
+    setSelectedLayerIds(
+      selectedLayerIds.includes(id) ? selectedLayerIds.filter((other) => other !== id) : [...selectedLayerIds, id]
+    );
+  };
+
+  const duplicateLayer = (id: string) => {
+    const layer = findLayer(poster, id);
+    if (!layer) return;
+    const newId = createLayerId(layer.type);
+    dispatch({ type: 'DUPLICATE_LAYER', id, newId });
+    selectLayer(newId);
+  };
+
+  const deleteLayer = (id: string) => {
+    dispatch({ type: 'REMOVE_LAYER', id });
+    setSelectedLayerIds(selectedLayerIds.filter((layerId) => layerId !== id));
+    if (editingLayerId === id) setEditingLayerId(null);
+  };
+
+  const prepareRender = async () => {
+    await loadUsedGlyphs(poster);
+    return { customFontCss: await buildCustomFontCss(poster, assets) };
+  };
+
+  const downloadPoster = (format: 'png' | 'svg' | 'pdf') => {
     if (posterRef.current === null) {
       toast({
         title: "Error",
@@ -79,12 +684,22 @@ export default function PosterGenerator() {
       return;
     }
 
-    toPng(posterRef.current, { cacheBust: true, })
+    const node = posterRef.current;
+    const render = {
+      png: (options: PosterRenderOptions) => renderPosterPng(node, poster, options),
+      svg: (options: PosterRenderOptions) => renderPosterSvg(node, poster, options),
+      pdf: (options: PosterRenderOptions) => renderPosterPdf(node, poster, options),
+    }[format];
+    prepareRender()
+      .then(render)
       .then((dataUrl) => {
-        const link = document.createElement('a');
-        link.download = 'magazine-poster.png';
-        link.href = dataUrl;
-        link.click();
+        downloadUrl(dataUrl, `magazine-poster.${format}`);
+        if (format === 'pdf') {
+          toast({
+            title: "PDF downloaded",
+            description: "Shapes are vector paths. Text and images are high-resolution images, not selectable text.",
+          });
+        }
       })
       .catch((err) => {
         toast({
@@ -95,41 +710,101 @@ export default function PosterGenerator() {
       });
   };
 
-  useEffect(() => {
-    if (generatedPoster && imagePreview) {
-      const img = new Image();
-      img.src = imagePreview;
-      img.onload = () => {
-        const aspectRatio = img.width / img.height;
-        let newWidth = Number(watchWidth);
-        let newHeight = (newWidth / aspectRatio);
-
-        if (newHeight > Number(watchHeight)) {
-          newHeight = Number(watchHeight);
-          newWidth = newHeight * aspectRatio;
-        }
+  const saveToLibrary = async (name: string) => {
+    try {
+      const thumbnail = posterRef.current
+        ? await renderPosterThumbnail(posterRef.current, poster, await prepareRender())
+        : null;
+      const existing = project ? await getProject(project.id) : null;
+      const now = Date.now();
+      const saved = await saveProject({
+        id: existing?.id ?? createProjectId(),
+        name,
+        document: poster,
+        assets: referencedAssets(poster, assets),
+        thumbnail,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      });
+      setProject({ id: saved.id, name: saved.name });
+      toast({ title: "Saved", description: `"${saved.name}" is in your library.` });
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not save poster to the library.",
+        variant: "destructive",
+      });
+    }
+  };
 
-        setImageSize({ width: newWidth, height: newHeight });
-      };
+  const exportPosterFile = async () => {
+    try {
+      const blob = await exportPosterArchive(poster, referencedAssets(poster, assets));
+      const url = URL.createObjectURL(blob);
+      downloadUrl(url, `${project?.name ?? 'magazine-poster'}${POSTER_FILE_EXTENSION}`);
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Could not export the poster file.",
+        variant: "destructive",
+      });
     }
-  }, [generatedPoster, imagePreview, watchWidth, watchHeight]);
+  };
+
+  const importPosterFile = async (file: File) => {
+    try {
+      const imported = await importPosterArchive(file);
+      replaceAssets(imported.assets);
+      restoreForm(resetHistory(imported.document, 'Import poster'));
+      setProject(undefined);
+      setRestoredDraftAt(null);
+      setGeneratedPoster(true);
+      if (imported.missingAssets.length > 0) {
+        toast({
+          title: "Missing assets",
+          description: `The poster file does not contain: ${imported.missingAssets.join(', ')}`,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not import the poster file.",
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <div className="flex flex-col w-full max-w-2xl gap-8">
-      <h1 className="text-2xl font-bold">Magazine Style Poster Generator</h1>
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">{project?.name ?? 'Magazine Style Poster Generator'}</h1>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => importInputRef.current?.click()}>
+            <FileUp className="mr-2 h-4 w-4" /> Import
+          </Button>
+          <Button variant="outline" asChild>
+            <Link href="/library">
+              <Library className="mr-2 h-4 w-4" /> Library
+            </Link>
+          </Button>
+        </div>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept={`${POSTER_FILE_EXTENSION},application/zip`}
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) importPosterFile(file);
+          }}
+        />
+      </div>
       <div className="flex flex-col gap-4">
         {/* @ts-ignore */}
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-          <div>
-            <Label htmlFor="title">Title</Label>
-            <Input id="title" {...register('title')} />
-            {errors.title && <p className="text-red-500">{errors.title.message}</p>}
-          </div>
-          <div>
-            <Label htmlFor="subtitle">Subtitle</Label>
-            <Input id="subtitle" {...register('subtitle')} />
-            {errors.subtitle && <p className="text-red-500">{errors.subtitle.message}</p>}
-          </div>
           <div>
             <Label htmlFor="url">URL</Label>
             <Input id="url" {...register('url')} />
@@ -152,86 +827,320 @@ export default function PosterGenerator() {
           </div>
           <Button type="submit">Generate Poster</Button>
         </form>
+        <BackgroundInspector
+          background={poster.background}
+          assetUrls={assetUrls}
+          onChange={(background) => dispatch({ type: 'SET_BACKGROUND', background })}
+          onUploadImage={uploadBackgroundImage}
+        />
+        <LayoutInspector
+          canvas={poster.canvas}
+          layout={poster.layout}
+          onChange={(layout) => dispatch({ type: 'SET_LAYOUT', layout })}
+        />
+        <div>
+          <h2 className="mb-2 text-lg font-semibold">Layers</h2>
+          <LayersPanel
+            layers={poster.layers}
+            groups={poster.groups}
+            selectedIds={selectedLayerIds}
+            onSelect={(id, additive) => (additive ? toggleLayerSelection(id) : selectLayer(id))}
+            onReorder={(id, index) => dispatch({ type: 'REORDER_LAYER', id, index })}
+            onChange={(id, changes) => dispatch({ type: 'UPDATE_LAYER', id, changes })}
+          />
+        </div>
+        <div>
+          <h2 className="mb-2 text-lg font-semibold">Text layers</h2>
+          <TextLayersPanel
+            layers={textLayers}
+            selectedId={selectedLayerId}
+            onSelect={selectLayer}
+            onAdd={(preset) => {
+              const layer = createTextLayer(preset, poster.canvas);
+              dispatch({ type: 'ADD_LAYER', layer });
+              selectLayer(layer.id);
+            }}
+            onChangeText={(id, text) => {
+              const layer = textLayers.find((textLayer) => textLayer.id === id);
+              if (layer) dispatch({ type: 'UPDATE_LAYER', id, changes: { spans: replaceText(layer.spans, text) } });
+            }}
+            onDuplicate={duplicateLayer}
+            onDelete={deleteLayer}
+            onBringForward={(id) => moveLayer(textLayers, id, 1)}
+            onSendBackward={(id) => moveLayer(textLayers, id, -1)}
+          />
+        </div>
+        <div>
+          <h2 className="mb-2 text-lg font-semibold">Image layers</h2>
+          <ImageLayersPanel
+            layers={imageLayers}
+            assetUrls={assetUrls}
+            selectedId={selectedLayerId}
+            onSelect={selectLayer}
+            onAdd={addImages}
+            onDuplicate={duplicateLayer}
+            onDelete={deleteLayer}
+            onBringForward={(id) => moveLayer(imageLayers, id, 1)}
+            onSendBackward={(id) => moveLayer(imageLayers, id, -1)}
+          />
+        </div>
+        <div>
+          <h2 className="mb-2 text-lg font-semibold">Shapes</h2>
+          <ShapeLayersPanel
+            layers={shapeLayers}
+            selectedId={selectedLayerId}
+            onSelect={selectLayer}
+            onAdd={(shape) => {
+              const layer = createShapeLayer(shape, poster.canvas);
+              dispatch({ type: 'ADD_LAYER', layer });
+              selectLayer(layer.id);
+            }}
+            onDuplicate={duplicateLayer}
+            onDelete={deleteLayer}
+            onBringForward={(id) => moveLayer(shapeLayers, id, 1)}
+            onSendBackward={(id) => moveLayer(shapeLayers, id, -1)}
+          />
+        </div>
+        <div>
+          <h2 className="mb-2 text-lg font-semibold">Icons & stickers</h2>
+          <IconLayersPanel
+            layers={iconLayers}
+            stickers={poster.stickers}
+            assetUrls={assetUrls}
+            selectedId={selectedLayerId}
+            onSelect={selectLayer}
+            onAdd={(icon) => {
+              const layer = createIconLayer(icon, poster.canvas);
+              dispatch({ type: 'ADD_LAYER', layer });
+              selectLayer(layer.id);
+            }}
+            onPlaceSticker={placeSticker}
+            onUploadStickers={uploadStickers}
+            onRemoveSticker={(assetId) => dispatch({ type: 'REMOVE_STICKER', assetId })}
+            onDuplicate={duplicateLayer}
+            onDelete={deleteLayer}
+            onBringForward={(id) => moveLayer(iconLayers, id, 1)}
+            onSendBackward={(id) => moveLayer(iconLayers, id, -1)}
+          />
+        </div>
+        {selectedLayer && (
+          <LayerControls
+            layer={selectedLayer}
+            onChange={(changes) => dispatch({ type: 'UPDATE_LAYER', id: selectedLayer.id, changes })}
+          />
+        )}
+        {selectedIconLayer && (
+          <IconInspector
+            layer={selectedIconLayer}
+            onChange={(changes) => dispatch({ type: 'UPDATE_LAYER', id: selectedIconLayer.id, changes })}
+          />
+        )}
+        {selectedShapeLayer && (
+          <ShapeInspector
+            layer={selectedShapeLayer}
+            onChange={(changes) => dispatch({ type: 'UPDATE_LAYER', id: selectedShapeLayer.id, changes })}
+          />
+        )}
+        {selectedImageLayer && (
+          <ImageInspector
+            layer={selectedImageLayer}
+            url={assetUrls[selectedImageLayer.assetId]}
+            customShapes={customFrameShapes}
+            onChange={(changes) => dispatch({ type: 'UPDATE_LAYER', id: selectedImageLayer.id, changes })}
+            onUploadFrameShape={uploadFrameShape}
+          />
+        )}
+        {selectedTextLayer && (
+          <TextInspector
+            layer={selectedTextLayer}
+            fonts={fontOptions(poster.fonts)}
+            assetUrls={assetUrls}
+            onUploadFont={uploadFont}
+            onUploadFillImage={uploadFillImage}
+            onFitChange={(fit) => dispatch({ type: 'UPDATE_LAYER', id: selectedTextLayer.id, changes: { fit } })}
+            onChange={(style) => {
+              const next = { ...selectedTextLayer.style, ...style };
+              // Turning a line into a column (or back) swaps the box so the text keeps its room.
+              const rotated = (next.direction === 'vertical') !== (selectedTextLayer.style.direction === 'vertical');
+              dispatch({
+                type: 'UPDATE_LAYER',
+                id: selectedTextLayer.id,
+                changes: rotated
+                  ? { style: next, width: selectedTextLayer.height, height: selectedTextLayer.width }
+                  : { style: next },
+              });
+            }}
+          />
+        )}
       </div>
 
       {generatedPoster && (
         <div className="mt-8">
-          <div
-            ref={posterRef}
-            className="relative bg-white border border-gray-300 rounded-lg overflow-hidden"
-            style={{ width: `${watchWidth}px`, height: `${watchHeight}px` }}
-          >
-            {imagePreview && (
-              <Draggable
-                nodeRef={imageRef}
-                bounds="parent"
-                position={imagePosition}
-                onStop={(e, data) => setImagePosition({ x: data.x, y: data.y })}
+          <div className="mb-2 flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              {autosave.status === 'saving' && 'Saving draft…'}
+              {autosave.status === 'saved' && autosave.savedAt &&
+                `Draft saved at ${new Date(autosave.savedAt).toLocaleTimeString()}`}
+              {autosave.status === 'error' && 'Autosave failed'}
+              {autosave.status === 'idle' && restoredDraftAt &&
+                `Restored draft from ${new Date(restoredDraftAt).toLocaleString()}`}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                variant={snapEnabled ? 'secondary' : 'ghost'}
+                size="sm"
+                title="Snap to edges, guides, grids and other layers. Hold Ctrl or ⌘ while dragging to move freely."
+                onClick={() => setSnapEnabled(!snapEnabled)}
               >
-                <Resizable
-                  size={imageSize}
-                  onResizeStop={(e, direction, ref, d) => {
-                    setImageSize({
-                      width: imageSize.width + d.width,
-                      height: imageSize.height + d.height
-                    });
-                  }}
-                  minWidth={100}
-                  minHeight={100}
-                  maxWidth={watchWidth}
-                  maxHeight={watchHeight}
-                >
-                  <div ref={imageRef} className="cursor-move">
-                    <NextImage src={imagePreview} alt="Uploaded" layout="fill" objectFit="cover" />
-                  </div>
-                </Resizable>
-              </Draggable>
-            )}
-            <Draggable
-              nodeRef={titleRef}
-              bounds="parent"
-              position={titlePosition}
-              onStop={(e, data) => setTitlePosition({ x: data.x, y: data.y })}
-            >
-              <h1
-                ref={titleRef}
-                className="absolute text-6xl font-bold cursor-move"
-                style={{ color: '#fff', textShadow: '2px 2px 4px rgba(0, 0, 0, 0.5)' }}
-              >
-                {watch('title')}
-              </h1>
-            </Draggable>
-            <Draggable
-              nodeRef={subtitleRef}
-              bounds="parent"
-              position={subtitlePosition}
-              onStop={(e, data) => setSubtitlePosition({ x: data.x, y: data.y })}
-            >
-              <h2
-                ref={subtitleRef}
-                className="absolute text-3xl font-semibold cursor-move"
-                style={{ color: '#fff', textShadow: '1px 1px 2px rgba(0, 0, 0, 0.5)' }}
-              >
-                {watch('subtitle')}
-              </h2>
-            </Draggable>
-            <Draggable
-              nodeRef={qrCodeRef}
-              bounds="parent"
-              position={qrCodePosition}
-              onStop={(e, data) => setQrCodePosition({ x: data.x, y: data.y })}
+                <Magnet className="mr-2 h-4 w-4" /> Snap
+              </Button>
+              <Button variant="ghost" size="sm" onClick={discardDraft}>
+                Discard draft
+              </Button>
+            </div>
+          </div>
+          <div className="mb-2">
+            <ArrangeToolbar
+              unitCount={selectedUnits.length}
+              canUngroup={selectedGroupIds.length > 0}
+              onAlign={alignSelection}
+              onDistribute={distributeSelection}
+              onGroup={groupSelection}
+              onUngroup={ungroupSelection}
+            />
+          </div>
+          <CanvasViewport
+            canvas={poster.canvas}
+            viewport={viewport}
+            onChange={setViewport}
+            rulers={
+              <Rulers
+                canvas={poster.canvas}
+                unit={poster.layout.unit}
+                viewport={viewport}
+                onAddGuide={(guide) =>
+                  dispatch({
+                    type: 'SET_LAYOUT',
+                    layout: { ...poster.layout, guides: [...poster.layout.guides, guide] },
+                  })
+                }
+              />
+            }
+          >
+            {/* The frame around the poster is editor chrome; exports start at the poster node inside it. It is
+                a ring rather than a border so the poster starts exactly where the rulers put 0. */}
+            <LayerContextMenu
+              unitCount={selectedUnits.length}
+              canUngroup={selectedGroupIds.length > 0}
+              onAlign={alignSelection}
+              onDistribute={distributeSelection}
+              onGroup={groupSelection}
+              onUngroup={ungroupSelection}
+              onDelete={deleteSelection}
             >
-              <div
-                ref={qrCodeRef}
-                className="absolute cursor-move p-2 bg-white bg-opacity-50 rounded"
-              >
-                <QRCodeSVG value={watch('url')} size={100} />
+              <div className="w-fit rounded-lg overflow-hidden ring-1 ring-gray-300">
+                <div
+                  ref={posterRef}
+                  className="relative isolate overflow-hidden"
+                  style={{ width: `${poster.canvas.width}px`, height: `${poster.canvas.height}px` }}
+                >
+                  {/* Dragging across the empty poster draws a selection marquee. */}
+                  <div
+                    className="absolute inset-0"
+                    style={backgroundStyle}
+                    onPointerDown={startMarquee}
+                    onPointerMove={updateMarquee}
+                    onPointerUp={endMarquee}
+                  />
+                  {visibleLayers.map((layer) => (
+                    <PosterLayerView
+                      key={layer.id}
+                      layer={layer}
+                      canvas={poster.canvas}
+                      scale={viewport.zoom}
+                      assetUrls={assetUrls}
+                      selected={selectedLayerIds.includes(layer.id)}
+                      rotatable={layer.id === selectedLayerId}
+                      editing={layer.id === editingLayerId}
+                      offset={layer.locked ? null : dragOffset}
+                      onSelect={pickLayer}
+                      onDrag={dragSelection}
+                      onDragEnd={endDrag}
+                      onContextMenu={(id) => {
+                        if (!selectedLayerIds.includes(id)) setSelectedLayerIds(pickLayerIds(poster, id));
+                      }}
+                      onResize={(id, width, height) => dispatch({ type: 'RESIZE_LAYER', id, width, height })}
+                      onStartEditing={(id) => {
+                        setSelectedLayerIds([id]);
+                        setEditingLayerId(id);
+                      }}
+                      onStopEditing={() => setEditingLayerId(null)}
+                      onChange={(id, changes) => dispatch({ type: 'UPDATE_LAYER', id, changes })}
+                    />
+                  ))}
+                  <LayoutOverlay
+                    canvas={poster.canvas}
+                    layout={poster.layout}
+                    scale={viewport.zoom}
+                    onChange={(layout) => dispatch({ type: 'SET_LAYOUT', layout })}
+                  />
+                  {selectedLayers.length > 1 && movableLayers.length > 0 && (
+                    <SelectionBox
+                      bounds={selectionBounds(movableLayers, dragOffset)}
+                      scale={viewport.zoom}
+                      onResizeStart={() => {
+                        scaleRef.current = { bounds: unionBounds(movableLayers), layers: movableLayers };
+                      }}
+                      onResize={scaleSelection}
+                      onResizeEnd={() => {
+                        scaleRef.current = null;
+                      }}
+                    />
+                  )}
+                  {marquee && <Marquee bounds={marquee} />}
+                  {snapGuides && <SnapGuides guides={snapGuides.guides} distances={snapGuides.distances} />}
+                </div>
               </div>
-            </Draggable>
+            </LayerContextMenu>
+          </CanvasViewport>
+          <div className="mt-4 flex gap-2">
+            <Button onClick={() => downloadPoster('png')} className="flex-1">
+              <Download className="mr-2 h-4 w-4" /> Download Poster
+            </Button>
+            <Button variant="outline" onClick={() => downloadPoster('svg')}>
+              SVG
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => downloadPoster('pdf')}
+              title="Shapes stay vector; text and images are printed as high-resolution images"
+            >
+              PDF
+            </Button>
+            <Button variant="outline" onClick={() => setSaveDialogOpen(true)}>
+              <Save className="mr-2 h-4 w-4" /> Save to Library
+            </Button>
+            <Button variant="outline" onClick={exportPosterFile} title={`Export ${POSTER_FILE_EXTENSION} file`}>
+              <FileDown className="mr-2 h-4 w-4" /> Export
+            </Button>
+          </div>
+          <ProjectNameDialog
+            open={saveDialogOpen}
+            onOpenChange={setSaveDialogOpen}
+            title={project ? "Save poster" : "Save to library"}
+            description="Posters are stored in this browser and listed in your library."
+            confirmLabel="Save"
+            initialName={project?.name ?? ((textLayers[0] && spansToText(textLayers[0].spans).trim()) || 'Untitled poster')}
+            onConfirm={saveToLibrary}
+          />
+          <div className="mt-4">
+            <HistoryPanel
+              history={history}
+              onUndo={() => restoreForm(undo())}
+              onRedo={() => restoreForm(redo())}
+              onJump={(entryId) => restoreForm(jumpTo(entryId))}
+            />
           </div>
-          <Button onClick={downloadPoster} className="mt-4 w-full">
-            <Download className="mr-2 h-4 w-4" /> Download Poster
-          </Button>
         </div>
       )}
     </div>
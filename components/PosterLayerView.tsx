@@ -0,0 +1,277 @@
+"use client";
+
+import { useRef, type RefObject } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { DraggableCore } from 'react-draggable';
+import { Resizable } from 're-resizable';
+import type { PosterDocument, PosterLayer, TextLayer, TextSpan } from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+import { TEXT_BOX_CSS, textStyleToCss } from '@/lib/poster/text';
+import { spanCss, spansToText } from '@/lib/poster/rich-text';
+import { cn } from '@/lib/utils';
+import { layerTransformCss, normalizeRotation, snapRotation } from '@/lib/poster/geometry';
+import { useFittedFontSize } from '@/hooks/use-fitted-font-size';
+import RichTextEditor from './RichTextEditor';
+import ImageLayerContent from './ImageLayerContent';
+import ShapeLayerContent from './ShapeLayerContent';
+import IconLayerContent from './IconLayerContent';
+
+const RESIZE_HANDLE_CLASS = 'poster-resize-handle';
+const ROTATE_HANDLE_CLASS = 'poster-rotate-handle';
+
+interface RotationHandleProps {
+  boxRef: RefObject<HTMLDivElement>;
+  onRotate: (rotation: number) => void;
+}
+
+// Sits above the top edge and turns the layer around its centre; Shift snaps to 15° steps.
+function RotationHandle({ boxRef, onRotate }: RotationHandleProps) {
+  const centerRef = useRef<{ x: number; y: number } | null>(null);
+
+  return (
+    <div
+      data-editor-chrome
+      className={cn(
+        ROTATE_HANDLE_CLASS,
+        'absolute -top-7 left-1/2 flex h-7 w-4 -translate-x-1/2 cursor-grab flex-col items-center'
+      )}
+      title="Drag to rotate. Hold Shift to snap to 15°."
+      onPointerDown={(event) => {
+        const box = boxRef.current?.getBoundingClientRect();
+        if (!box) return;
+        event.stopPropagation();
+        event.currentTarget.setPointerCapture(event.pointerId);
+        // Rotation and skew both happen around the centre, so it stays put on screen.
+        centerRef.current = { x: box.left + box.width / 2, y: box.top + box.height / 2 };
+      }}
+      onPointerMove={(event) => {
+        const center = centerRef.current;
+        if (!center) return;
+        // Straight up is 0°, matching the handle's resting place.
+        const angle = (Math.atan2(event.clientY - center.y, event.clientX - center.x) * 180) / Math.PI + 90;
+        onRotate(event.shiftKey ? snapRotation(angle) : normalizeRotation(Math.round(angle)));
+      }}
+      onPointerUp={() => {
+        centerRef.current = null;
+      }}
+    >
+      <span className="h-3 w-3 rounded-full border-2 border-sky-500 bg-white" />
+      <span className="w-0.5 flex-1 bg-sky-500" />
+    </div>
+  );
+}
+
+interface TextLayerContentProps {
+  layer: TextLayer;
+  assetUrls: Record<string, string>;
+  editing: boolean;
+  onChangeSpans: (spans: TextSpan[]) => void;
+  onStopEditing: () => void;
+}
+
+function TextLayerContent({ layer, assetUrls, editing, onChangeSpans, onStopEditing }: TextLayerContentProps) {
+  const fontSize = useFittedFontSize(layer);
+  const style = {
+    ...TEXT_BOX_CSS,
+    ...textStyleToCss(layer.style, assetUrls),
+    fontSize: `${fontSize}px`,
+  };
+
+  if (editing) {
+    return <RichTextEditor layer={layer} style={style} onChange={onChangeSpans} onDone={onStopEditing} />;
+  }
+
+  return (
+    <div className="h-full w-full" style={style}>
+      {layer.spans.map((span, index) => (
+        <span key={index} style={spanCss(span, layer.style)}>
+          {span.text}
+        </span>
+      ))}
+      {/* A trailing newline only renders as an empty line when something follows it. */}
+      {spansToText(layer.spans).endsWith('\n') && <br />}
+    </div>
+  );
+}
+
+interface PosterLayerViewProps {
+  layer: PosterLayer;
+  canvas: PosterDocument['canvas'];
+  // The viewport zoom, so pointer movement on screen turns into the same movement on the canvas.
+  scale: number;
+  assetUrls: Record<string, string>;
+  selected: boolean;
+  // Only a layer selected on its own gets a rotation handle.
+  rotatable: boolean;
+  editing: boolean;
+  // How far the selection has been dragged so far; the layer shows there until the drag ends.
+  offset: { x: number; y: number } | null;
+  // `additive` is set while Shift is held, adding the layer to the selection or taking it out.
+  onSelect: (id: string, additive: boolean) => void;
+  // Called for every drag step with how far the pointer moved. `free` is set while the snapping
+  // modifier key is held.
+  onDrag: (deltaX: number, deltaY: number, free: boolean) => void;
+  onDragEnd: (id: string) => void;
+  onContextMenu: (id: string) => void;
+  onResize: (id: string, width: number, height: number) => void;
+  onStartEditing: (id: string) => void;
+  onStopEditing: () => void;
+  onChange: (id: string, changes: LayerChanges) => void;
+}
+
+export default function PosterLayerView({
+  layer,
+  canvas,
+  scale,
+  assetUrls,
+  selected,
+  rotatable,
+  editing,
+  offset,
+  onSelect,
+  onDrag,
+  onDragEnd,
+  onContextMenu,
+  onResize,
+  onStartEditing,
+  onStopEditing,
+  onChange,
+}: PosterLayerViewProps) {
+  const nodeRef = useRef<HTMLDivElement>(null);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const position = selected && offset ? { x: layer.x + offset.x, y: layer.y + offset.y } : layer;
+
+  return (
+    <DraggableCore
+      nodeRef={nodeRef}
+      disabled={editing || layer.locked}
+      scale={scale}
+      cancel={`.${RESIZE_HANDLE_CLASS}, .${ROTATE_HANDLE_CLASS}`}
+      onStart={(event) => onSelect(layer.id, 'shiftKey' in event && event.shiftKey)}
+      onDrag={(event, data) => onDrag(data.deltaX, data.deltaY, 'ctrlKey' in event && (event.ctrlKey || event.metaKey))}
+      onStop={() => onDragEnd(layer.id)}
+    >
+      <div
+        ref={nodeRef}
+        data-layer-id={layer.id}
+        className="pointer-events-none absolute top-0 left-0"
+        style={{
+          transform: `translate(${position.x}px, ${position.y}px)`,
+          opacity: layer.opacity,
+          mixBlendMode: layer.blendMode,
+        }}
+      >
+        {/* Only the transformed box takes pointer events, so clicks hit the layer as drawn. Clicks on a
+            locked layer go through to whatever is underneath. */}
+        <div
+          ref={boxRef}
+          className={cn(
+            'relative',
+            layer.locked ? 'pointer-events-none' : 'pointer-events-auto',
+            !editing && !layer.locked && 'cursor-move'
+          )}
+          style={layerTransformCss(layer)}
+          onDoubleClick={() => {
+            if (layer.type === 'text' || layer.type === 'image') onStartEditing(layer.id);
+          }}
+          onContextMenu={() => onContextMenu(layer.id)}
+        >
+          {layer.type === 'image' && (
+            <Resizable
+              size={{ width: layer.width, height: layer.height }}
+              onResizeStop={(e, direction, ref, d) => {
+                onResize(layer.id, layer.width + d.width, layer.height + d.height);
+              }}
+              minWidth={12}
+              minHeight={12}
+              maxWidth={canvas.width}
+              maxHeight={canvas.height}
+              handleWrapperClass={RESIZE_HANDLE_CLASS}
+              scale={scale}
+            >
+              <ImageLayerContent
+                layer={layer}
+                url={assetUrls[layer.assetId]}
+                editing={editing}
+                scale={scale}
+                onCropChange={(crop) => onChange(layer.id, { crop })}
+                onStopEditing={onStopEditing}
+              />
+            </Resizable>
+          )}
+          {layer.type === 'text' && (
+            <Resizable
+              size={{ width: layer.width, height: layer.height }}
+              onResizeStop={(e, direction, ref, d) => {
+                onResize(layer.id, layer.width + d.width, layer.height + d.height);
+              }}
+              minWidth={20}
+              minHeight={10}
+              maxWidth={canvas.width}
+              maxHeight={canvas.height}
+              handleWrapperClass={RESIZE_HANDLE_CLASS}
+              scale={scale}
+            >
+              <TextLayerContent
+                layer={layer}
+                assetUrls={assetUrls}
+                editing={editing}
+                onChangeSpans={(spans) => onChange(layer.id, { spans })}
+                onStopEditing={onStopEditing}
+              />
+            </Resizable>
+          )}
+          {layer.type === 'shape' && (
+            <Resizable
+              size={{ width: layer.width, height: layer.height }}
+              onResizeStop={(e, direction, ref, d) => {
+                onResize(layer.id, layer.width + d.width, layer.height + d.height);
+              }}
+              minWidth={8}
+              minHeight={4}
+              maxWidth={canvas.width}
+              maxHeight={canvas.height}
+              handleWrapperClass={RESIZE_HANDLE_CLASS}
+              scale={scale}
+            >
+              <ShapeLayerContent layer={layer} />
+            </Resizable>
+          )}
+          {layer.type === 'icon' && (
+            <Resizable
+              size={{ width: layer.width, height: layer.height }}
+              onResizeStop={(e, direction, ref, d) => {
+                onResize(layer.id, layer.width + d.width, layer.height + d.height);
+              }}
+              minWidth={12}
+              minHeight={12}
+              maxWidth={canvas.width}
+              maxHeight={canvas.height}
+              handleWrapperClass={RESIZE_HANDLE_CLASS}
+              scale={scale}
+            >
+              <IconLayerContent layer={layer} />
+            </Resizable>
+          )}
+          {layer.type === 'qr' && (
+            <div
+              className="p-2 bg-white bg-opacity-50 rounded"
+              style={{ width: `${layer.width}px`, height: `${layer.height}px` }}
+            >
+              <QRCodeSVG value={layer.value} size={Math.min(layer.width, layer.height) - 16} />
+            </div>
+          )}
+          {selected && (
+            <div
+              data-editor-chrome
+              className="pointer-events-none absolute inset-0 outline outline-2 outline-sky-500"
+            />
+          )}
+          {rotatable && !editing && !layer.locked && (
+            <RotationHandle boxRef={boxRef} onRotate={(rotation) => onChange(layer.id, { rotation })} />
+          )}
+        </div>
+      </div>
+    </DraggableCore>
+  );
+}
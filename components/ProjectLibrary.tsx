@@ -0,0 +1,261 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import NextImage from 'next/image';
+import { useRouter } from 'next/navigation';
+import { Copy, FolderOpen, ImageOff, Pencil, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Card, CardDescription, CardFooter, CardHeader, CardTitle } from './ui/card';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import ProjectNameDialog from './ProjectNameDialog';
+import { useToast } from '../hooks/use-toast';
+import {
+  createProjectId,
+  deleteProject,
+  duplicateProject,
+  getProject,
+  isUnchangedProjectDraft,
+  listProjects,
+  renameProject,
+  saveProject,
+  type PosterProjectSummary,
+} from '@/lib/poster/library';
+import { loadDraft, saveDraft, type PosterDraft } from '@/lib/poster/storage';
+
+export default function ProjectLibrary() {
+  const router = useRouter();
+  const { toast } = useToast();
+  const [projects, setProjects] = useState<PosterProjectSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [renaming, setRenaming] = useState<PosterProjectSummary | null>(null);
+  const [deleting, setDeleting] = useState<PosterProjectSummary | null>(null);
+  const [replacing, setReplacing] = useState<{ project: PosterProjectSummary; draft: PosterDraft } | null>(null);
+
+  const showError = useCallback(
+    (description: string) => {
+      toast({ title: "Error", description, variant: "destructive" });
+    },
+    [toast]
+  );
+
+  const refresh = useCallback(() => {
+    listProjects()
+      .then(setProjects)
+      .catch(() => {
+        setProjects([]);
+        showError("Could not load your poster library.");
+      });
+  }, [showError]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const thumbnailUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    projects?.forEach((project) => {
+      if (project.thumbnail) urls[project.id] = URL.createObjectURL(project.thumbnail);
+    });
+    return urls;
+  }, [projects]);
+
+  useEffect(() => () => Object.values(thumbnailUrls).forEach((url) => URL.revokeObjectURL(url)), [thumbnailUrls]);
+
+  const visibleProjects = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return (projects ?? []).filter((project) => project.name.toLowerCase().includes(needle));
+  }, [projects, query]);
+
+  const openProject = async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) throw new Error('Project not found');
+      await saveDraft({
+        document: project.document,
+        assets: project.assets,
+        savedAt: Date.now(),
+        project: { id: project.id, name: project.name },
+      });
+      router.push('/');
+    } catch {
+      showError("Could not open this poster.");
+    }
+  };
+
+  // Opening a poster replaces the draft in the editor, so ask first when that would lose edits.
+  const requestOpen = async (project: PosterProjectSummary) => {
+    const draft = await loadDraft().catch(() => null);
+    const unchanged = draft ? await isUnchangedProjectDraft(draft).catch(() => false) : true;
+    if (draft && !unchanged) setReplacing({ project, draft });
+    else await openProject(project.id);
+  };
+
+  const keepDraftAndOpen = async (project: PosterProjectSummary, draft: PosterDraft) => {
+    try {
+      const now = Date.now();
+      await saveProject({
+        id: createProjectId(),
+        name: `${draft.project?.name ?? 'Untitled poster'} (draft)`,
+        document: draft.document,
+        assets: draft.assets,
+        thumbnail: null,
+        createdAt: now,
+        updatedAt: now,
+      });
+    } catch {
+      showError("Could not keep your current draft.");
+      return;
+    }
+    await openProject(project.id);
+  };
+
+  const run = (operation: Promise<unknown>, failure: string) => {
+    operation.then(refresh).catch(() => showError(failure));
+  };
+
+  return (
+    <div className="flex flex-col w-full max-w-5xl gap-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-bold">Poster Library</h1>
+        <div className="flex items-center gap-2">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="Search posters"
+              className="pl-9"
+            />
+          </div>
+          <Button asChild>
+            <Link href="/">
+              <Plus className="mr-2 h-4 w-4" /> Editor
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {projects === null && <p className="text-muted-foreground">Loading…</p>}
+      {projects !== null && visibleProjects.length === 0 && (
+        <p className="text-muted-foreground">
+          {projects.length === 0 ? "No saved posters yet. Save one from the editor." : "No posters match your search."}
+        </p>
+      )}
+
+      <div className="grid gap-6 sm:grid-cols-2 lg:grid-cols-3">
+        {visibleProjects.map((project) => (
+          <Card key={project.id} className="overflow-hidden">
+            <div className="relative aspect-[4/5] bg-muted">
+              {thumbnailUrls[project.id] ? (
+                <NextImage src={thumbnailUrls[project.id]} alt={project.name} layout="fill" objectFit="contain" />
+              ) : (
+                <ImageOff className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2 text-muted-foreground" />
+              )}
+            </div>
+            <CardHeader className="p-4">
+              <CardTitle className="truncate text-lg">{project.name}</CardTitle>
+              <CardDescription>Edited {new Date(project.updatedAt).toLocaleString()}</CardDescription>
+            </CardHeader>
+            <CardFooter className="flex gap-1 p-4 pt-0">
+              <Button size="sm" onClick={() => requestOpen(project)}>
+                <FolderOpen className="mr-2 h-4 w-4" /> Open
+              </Button>
+              <Button size="icon" variant="ghost" title="Rename" onClick={() => setRenaming(project)}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Duplicate"
+                onClick={() => run(duplicateProject(project.id), "Could not duplicate this poster.")}
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+              <Button size="icon" variant="ghost" title="Delete" onClick={() => setDeleting(project)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </CardFooter>
+          </Card>
+        ))}
+      </div>
+
+      <ProjectNameDialog
+        open={renaming !== null}
+        onOpenChange={(open) => !open && setRenaming(null)}
+        title="Rename poster"
+        description="Give this poster a name you can find later."
+        confirmLabel="Rename"
+        initialName={renaming?.name ?? ''}
+        onConfirm={(name) => renaming && run(renameProject(renaming.id, name), "Could not rename this poster.")}
+      />
+
+      <Dialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete poster?</DialogTitle>
+            <DialogDescription>
+              &ldquo;{deleting?.name}&rdquo; will be removed from this browser. This cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (deleting) run(deleteProject(deleting.id), "Could not delete this poster.");
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={replacing !== null} onOpenChange={(open) => !open && setReplacing(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Replace your current draft?</DialogTitle>
+            <DialogDescription>
+              Opening &ldquo;{replacing?.project.name}&rdquo; replaces the poster you are working on in the editor.
+              Keep it in your library to come back to it later.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplacing(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => {
+                if (replacing) openProject(replacing.project.id);
+                setReplacing(null);
+              }}
+            >
+              Discard draft
+            </Button>
+            <Button
+              onClick={() => {
+                if (replacing) keepDraftAndOpen(replacing.project, replacing.draft);
+                setReplacing(null);
+              }}
+            >
+              Keep draft and open
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+
+interface ProjectNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  initialName: string;
+  onConfirm: (name: string) => void;
+}
+
+export default function ProjectNameDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  initialName,
+  onConfirm,
+}: ProjectNameDialogProps) {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const trimmedName = name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (!trimmedName) return;
+            onConfirm(trimmedName);
+            onOpenChange(false);
+          }}
+          className="space-y-4"
+        >
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="project-name">Name</Label>
+            <Input id="project-name" value={name} onChange={(event) => setName(event.target.value)} autoFocus />
+          </div>
+          <DialogFooter>
+            <Button type="submit" disabled={!trimmedName}>
+              {confirmLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
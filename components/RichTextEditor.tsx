@@ -0,0 +1,238 @@
+"use client";
+
+import { useEffect, useLayoutEffect, useRef, type CSSProperties } from 'react';
+import { Bold, Check, Italic, Minus, Plus, RemoveFormatting } from 'lucide-react';
+import { Button } from './ui/button';
+import type { TextLayer, TextSpan } from '@/lib/poster/document';
+import {
+  applyFormat,
+  formatAt,
+  rangeHasFormat,
+  renderSpansInto,
+  replaceRange,
+  spansFromDom,
+  spansToText,
+  type SpanFormat,
+} from '@/lib/poster/rich-text';
+import { normalizeHex } from '@/lib/poster/color';
+
+const SCALE_STEP = 0.1;
+const MIN_SCALE = 0.3;
+const MAX_SCALE = 4;
+
+// Offset of (node, offset) in the plain text of `root`.
+function textOffset(root: HTMLElement, node: Node, offset: number) {
+  const range = document.createRange();
+  range.setStart(root, 0);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function readSelection(root: HTMLElement) {
+  const selection = window.getSelection();
+  if (!selection || selection.rangeCount === 0) return null;
+  const range = selection.getRangeAt(0);
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null;
+  return {
+    start: textOffset(root, range.startContainer, range.startOffset),
+    end: textOffset(root, range.endContainer, range.endOffset),
+  };
+}
+
+function locate(root: HTMLElement, offset: number): [Node, number] {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  let remaining = offset;
+  let last: Text | null = null;
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    if (remaining <= node.length) return [node, remaining];
+    remaining -= node.length;
+    last = node;
+  }
+  return last ? [last, last.length] : [root, 0];
+}
+
+function writeSelection(root: HTMLElement, start: number, end: number) {
+  const selection = window.getSelection();
+  if (!selection) return;
+  const range = document.createRange();
+  range.setStart(...locate(root, start));
+  range.setEnd(...locate(root, end));
+  selection.removeAllRanges();
+  selection.addRange(range);
+}
+
+interface RichTextEditorProps {
+  layer: TextLayer;
+  style: CSSProperties;
+  onChange: (spans: TextSpan[]) => void;
+  onDone: () => void;
+}
+
+export default function RichTextEditor({ layer, style, onChange, onDone }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  // What the DOM currently shows; anything else (undo, the side panel) needs a re-render.
+  const renderedRef = useRef<Pick<TextLayer, 'spans' | 'style'> | null>(null);
+  const selectionRef = useRef({ start: 0, end: 0 });
+
+  useLayoutEffect(() => {
+    const editor = editorRef.current;
+    const rendered = renderedRef.current;
+    if (!editor || (rendered?.spans === layer.spans && rendered.style === layer.style)) return;
+    const first = rendered === null;
+    renderSpansInto(editor, layer.spans, layer.style);
+    renderedRef.current = { spans: layer.spans, style: layer.style };
+    if (first) {
+      editor.focus();
+      writeSelection(editor, 0, spansToText(layer.spans).length);
+    } else if (document.activeElement === editor) {
+      const { start, end } = selectionRef.current;
+      const length = spansToText(layer.spans).length;
+      writeSelection(editor, Math.min(start, length), Math.min(end, length));
+    }
+  }, [layer.spans, layer.style]);
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const editor = editorRef.current;
+      const current = editor && readSelection(editor);
+      if (current) selectionRef.current = current;
+    };
+    document.addEventListener('selectionchange', onSelectionChange);
+    return () => document.removeEventListener('selectionchange', onSelectionChange);
+  }, []);
+
+  const commit = (spans: TextSpan[], start: number, end: number) => {
+    selectionRef.current = { start, end };
+    onChange(spans);
+    // Re-render right away so the caret lands correctly even when the document does not change.
+    const editor = editorRef.current;
+    if (editor) {
+      renderSpansInto(editor, spans, layer.style);
+      renderedRef.current = { spans, style: layer.style };
+      writeSelection(editor, start, end);
+    }
+  };
+
+  const insertText = (text: string) => {
+    const { start, end } = selectionRef.current;
+    commit(replaceRange(layer.spans, start, end, text), start + text.length, start + text.length);
+  };
+
+  const format = (patch: SpanFormat) => {
+    const { start, end } = selectionRef.current;
+    if (start === end) return;
+    commit(applyFormat(layer.spans, start, end, patch), start, end);
+  };
+
+  const toggle = (key: 'bold' | 'italic') => {
+    const { start, end } = selectionRef.current;
+    format({ [key]: rangeHasFormat(layer.spans, start, end, key) ? undefined : true });
+  };
+
+  const scaleBy = (step: number) => {
+    const current = formatAt(layer.spans, selectionRef.current.start + 1).scale ?? 1;
+    const scale = Math.round(Math.min(MAX_SCALE, Math.max(MIN_SCALE, current + step)) * 10) / 10;
+    format({ scale: scale === 1 ? undefined : scale });
+  };
+
+  const selectedColor = formatAt(layer.spans, selectionRef.current.start + 1).color ?? layer.style.color;
+
+  return (
+    <>
+      <div
+        data-editor-chrome
+        className={`absolute left-0 z-10 flex items-center gap-1 rounded-md border bg-white p-1 text-black shadow ${
+          layer.y > 48 ? 'bottom-full mb-1' : 'top-full mt-1'
+        }`}
+        // Keep the text selection while clicking toolbar buttons.
+        onMouseDown={(event) => {
+          if (!(event.target instanceof HTMLInputElement)) event.preventDefault();
+        }}
+      >
+        <Button type="button" size="icon" variant="ghost" className="h-7 w-7" title="Bold" onClick={() => toggle('bold')}>
+          <Bold className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Italic"
+          onClick={() => toggle('italic')}
+        >
+          <Italic className="h-4 w-4" />
+        </Button>
+        <input
+          type="color"
+          title="Color"
+          value={normalizeHex(selectedColor) ?? '#000000'}
+          onChange={(event) => format({ color: event.target.value })}
+          className="h-7 w-7 cursor-pointer rounded border-0 bg-transparent p-0"
+        />
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Smaller"
+          onClick={() => scaleBy(-SCALE_STEP)}
+        >
+          <Minus className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Larger"
+          onClick={() => scaleBy(SCALE_STEP)}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          title="Clear formatting"
+          onClick={() => format({ bold: undefined, italic: undefined, color: undefined, scale: undefined })}
+        >
+          <RemoveFormatting className="h-4 w-4" />
+        </Button>
+        <Button type="button" size="icon" variant="ghost" className="h-7 w-7" title="Done" onClick={onDone}>
+          <Check className="h-4 w-4" />
+        </Button>
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        className="h-full w-full cursor-text outline-none"
+        style={style}
+        onInput={(event) => {
+          const spans = spansFromDom(event.currentTarget);
+          renderedRef.current = { spans, style: layer.style };
+          onChange(spans);
+        }}
+        onKeyDown={(event) => {
+          const key = event.key.toLowerCase();
+          if (key === 'escape') {
+            event.preventDefault();
+            onDone();
+          } else if (key === 'enter') {
+            event.preventDefault();
+            insertText('\n');
+          } else if ((event.ctrlKey || event.metaKey) && (key === 'b' || key === 'i')) {
+            event.preventDefault();
+            toggle(key === 'b' ? 'bold' : 'italic');
+          }
+        }}
+        onPaste={(event) => {
+          event.preventDefault();
+          insertText(event.clipboardData.getData('text/plain').replace(/\r\n?/g, '\n'));
+        }}
+        onDrop={(event) => event.preventDefault()}
+      />
+    </>
+  );
+}
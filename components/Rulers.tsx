@@ -0,0 +1,107 @@
+"use client";
+
+import { useRef, useState, type PointerEvent } from 'react';
+import type { LayoutGuide, PosterDocument, RulerUnit } from '@/lib/poster/document';
+import { rulerTicks } from '@/lib/poster/layout';
+import type { Viewport } from '@/lib/poster/viewport';
+
+// Thickness of the rulers, in screen pixels.
+const RULER_SIZE = 20;
+
+interface RulersProps {
+  canvas: PosterDocument['canvas'];
+  unit: RulerUnit;
+  viewport: Viewport;
+  onAddGuide: (guide: LayoutGuide) => void;
+}
+
+interface GuidePreview {
+  axis: LayoutGuide['axis'];
+  // Screen pixels from the top-left of the viewport.
+  offset: number;
+}
+
+// Top and left rulers for the viewport, following its zoom and pan. Dragging out of a ruler places
+// a guide: out of the top ruler a horizontal one, out of the left ruler a vertical one.
+export default function Rulers({ canvas, unit, viewport, onAddGuide }: RulersProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const [preview, setPreview] = useState<GuidePreview | null>(null);
+
+  const previewAt = (axis: LayoutGuide['axis'], event: PointerEvent<HTMLDivElement>): GuidePreview | null => {
+    const bounds = rootRef.current?.getBoundingClientRect();
+    if (!bounds) return null;
+    return { axis, offset: axis === 'x' ? event.clientX - bounds.left : event.clientY - bounds.top };
+  };
+
+  const toCanvas = ({ axis, offset }: GuidePreview) =>
+    Math.round((offset - (axis === 'x' ? viewport.x : viewport.y)) / viewport.zoom);
+
+  const dragHandlers = (axis: LayoutGuide['axis']) => ({
+    onPointerDown: (event: PointerEvent<HTMLDivElement>) => {
+      event.currentTarget.setPointerCapture(event.pointerId);
+      setPreview(previewAt(axis, event));
+    },
+    onPointerMove: (event: PointerEvent<HTMLDivElement>) => {
+      if (preview) setPreview(previewAt(axis, event));
+    },
+    onPointerUp: () => {
+      if (!preview) return;
+      const position = toCanvas(preview);
+      const size = axis === 'x' ? canvas.width : canvas.height;
+      // Letting go over the ruler itself, or off the poster, places nothing.
+      if (preview.offset > RULER_SIZE && position >= 0 && position <= size) onAddGuide({ axis, position });
+      setPreview(null);
+    },
+  });
+
+  return (
+    <div ref={rootRef} className="pointer-events-none absolute inset-0 text-[9px] leading-none text-gray-500">
+      <div
+        className="pointer-events-auto absolute right-0 top-0 cursor-row-resize overflow-hidden border-b bg-white"
+        style={{ left: RULER_SIZE, height: RULER_SIZE }}
+        title="Drag down to add a guide"
+        {...dragHandlers('y')}
+      >
+        {rulerTicks(canvas.width, unit, viewport.zoom).map((tick, index) => (
+          <div
+            key={index}
+            className="absolute bottom-0 border-l border-gray-400"
+            style={{ left: viewport.x - RULER_SIZE + tick.position * viewport.zoom, height: tick.label ? '100%' : 4 }}
+          >
+            {tick.label && <span className="absolute left-0.5 top-0.5">{tick.label}</span>}
+          </div>
+        ))}
+      </div>
+      <div
+        className="pointer-events-auto absolute bottom-0 left-0 cursor-col-resize overflow-hidden border-r bg-white"
+        style={{ top: RULER_SIZE, width: RULER_SIZE }}
+        title="Drag right to add a guide"
+        {...dragHandlers('x')}
+      >
+        {rulerTicks(canvas.height, unit, viewport.zoom).map((tick, index) => (
+          <div
+            key={index}
+            className="absolute right-0 border-t border-gray-400"
+            style={{ top: viewport.y - RULER_SIZE + tick.position * viewport.zoom, width: tick.label ? '100%' : 4 }}
+          >
+            {tick.label && (
+              <span className="absolute left-0.5 top-0.5 [writing-mode:vertical-rl]">{tick.label}</span>
+            )}
+          </div>
+        ))}
+      </div>
+      <div
+        className="absolute left-0 top-0 flex items-center justify-center border-b border-r bg-white"
+        style={{ width: RULER_SIZE, height: RULER_SIZE }}
+      >
+        {unit}
+      </div>
+      {preview && (
+        <div
+          className={`absolute bg-cyan-500 ${preview.axis === 'x' ? 'inset-y-0 w-px' : 'inset-x-0 h-px'}`}
+          style={preview.axis === 'x' ? { left: preview.offset } : { top: preview.offset }}
+        />
+      )}
+    </div>
+  );
+}
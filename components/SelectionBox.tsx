@@ -0,0 +1,56 @@
+"use client";
+
+import { useRef } from 'react';
+import type { Bounds } from '@/lib/poster/geometry';
+
+// Smallest size, in canvas pixels, the selection can be scaled down to.
+const MIN_SIZE = 8;
+
+interface SelectionBoxProps {
+  bounds: Bounds;
+  // The viewport zoom; pointer movement is divided by it to get canvas pixels.
+  scale: number;
+  onResizeStart: () => void;
+  // Scale factors against the box as it was when the handle was grabbed.
+  onResize: (scaleX: number, scaleY: number) => void;
+  onResizeEnd: () => void;
+}
+
+// Outlines a multi-layer selection or group; the corner handle scales everything inside together.
+// Shift keeps the proportions.
+export default function SelectionBox({ bounds, scale, onResizeStart, onResize, onResizeEnd }: SelectionBoxProps) {
+  const startRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null);
+  const width = bounds.right - bounds.left;
+  const height = bounds.bottom - bounds.top;
+
+  return (
+    <div
+      data-editor-chrome
+      className="pointer-events-none absolute z-40 outline-dashed outline-1 outline-sky-500"
+      style={{ left: bounds.left, top: bounds.top, width, height }}
+    >
+      <div
+        className="pointer-events-auto absolute -bottom-1.5 -right-1.5 h-3 w-3 cursor-nwse-resize border border-sky-500 bg-white"
+        title="Drag to scale the selection. Hold Shift to keep proportions."
+        onPointerDown={(event) => {
+          event.stopPropagation();
+          event.currentTarget.setPointerCapture(event.pointerId);
+          startRef.current = { x: event.clientX, y: event.clientY, width, height };
+          onResizeStart();
+        }}
+        onPointerMove={(event) => {
+          const start = startRef.current;
+          if (!start) return;
+          let scaleX = Math.max(MIN_SIZE, start.width + (event.clientX - start.x) / scale) / start.width;
+          let scaleY = Math.max(MIN_SIZE, start.height + (event.clientY - start.y) / scale) / start.height;
+          if (event.shiftKey) scaleX = scaleY = Math.max(scaleX, scaleY);
+          onResize(scaleX, scaleY);
+        }}
+        onPointerUp={() => {
+          startRef.current = null;
+          onResizeEnd();
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import type { ShapeLayer, ShapeStroke } from '@/lib/poster/document';
+import type { LayerChanges } from '@/lib/poster/reducer';
+import { isLinearShape } from '@/lib/poster/shapes';
+
+const DASH_STYLES: { value: ShapeStroke['dash']; label: string }[] = [
+  { value: 'solid', label: 'Solid' },
+  { value: 'dashed', label: 'Dashed' },
+  { value: 'dotted', label: 'Dotted' },
+];
+
+const pixels = (value: number) => `${value}px`;
+
+interface ShapeInspectorProps {
+  layer: ShapeLayer;
+  onChange: (changes: LayerChanges) => void;
+}
+
+export default function ShapeInspector({ layer, onChange }: ShapeInspectorProps) {
+  const { fill, stroke } = layer;
+  const linear = isLinearShape(layer);
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Shape · {layer.name}</h2>
+
+      {!linear && (
+        <div className="flex items-center justify-between">
+          <Label>Fill</Label>
+          <div className="flex items-center gap-2">
+            {fill && <ColorField value={fill} onChange={(color) => onChange({ fill: color })} />}
+            <Button
+              type="button"
+              variant={fill ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => onChange({ fill: fill ? null : '#e11d48' })}
+            >
+              {fill ? 'On' : 'Off'}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {/* Lines and arrows are nothing but their stroke, so it cannot be turned off. */}
+        {!linear && (
+          <div className="flex items-center justify-between">
+            <Label>Stroke</Label>
+            <Button
+              type="button"
+              variant={stroke ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => onChange({ stroke: stroke ? null : { width: 4, color: '#000000', dash: 'solid' } })}
+            >
+              {stroke ? 'On' : 'Off'}
+            </Button>
+          </div>
+        )}
+        {stroke && (
+          <>
+            <div className="flex gap-2">
+              <ColorField value={stroke.color} onChange={(color) => onChange({ stroke: { ...stroke, color } })} />
+              <div className="flex-1">
+                <Select
+                  value={stroke.dash}
+                  onValueChange={(dash) => onChange({ stroke: { ...stroke, dash: dash as ShapeStroke['dash'] } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DASH_STYLES.map((style) => (
+                      <SelectItem key={style.value} value={style.value}>
+                        {style.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <SliderField
+              label={linear ? 'Thickness' : 'Stroke width'}
+              value={stroke.width}
+              min={1}
+              max={40}
+              format={pixels}
+              onChange={(width) => onChange({ stroke: { ...stroke, width } })}
+            />
+          </>
+        )}
+      </div>
+
+      {layer.shape === 'rectangle' && (
+        <SliderField
+          label="Corner radius"
+          value={layer.cornerRadius}
+          min={0}
+          max={Math.max(1, Math.round(Math.min(layer.width, layer.height) / 2))}
+          format={pixels}
+          onChange={(cornerRadius) => onChange({ cornerRadius })}
+        />
+      )}
+      {(layer.shape === 'polygon' || layer.shape === 'star') && (
+        <SliderField
+          label={layer.shape === 'star' ? 'Points' : 'Sides'}
+          value={layer.points}
+          min={3}
+          max={24}
+          onChange={(points) => onChange({ points })}
+        />
+      )}
+      {layer.shape === 'star' && (
+        <SliderField
+          label="Inner radius"
+          value={layer.innerRadius}
+          min={0.1}
+          max={1}
+          step={0.05}
+          format={(value) => `${Math.round(value * 100)}%`}
+          onChange={(innerRadius) => onChange({ innerRadius })}
+        />
+      )}
+    </div>
+  );
+}
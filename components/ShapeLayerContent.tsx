@@ -0,0 +1,34 @@
+"use client";
+
+import type { ShapeLayer } from '@/lib/poster/document';
+import { isLinearShape, shapePaths, strokeDashArray } from '@/lib/poster/shapes';
+
+interface ShapeLayerContentProps {
+  layer: ShapeLayer;
+}
+
+// Drawn as inline SVG from the same paths the SVG and PDF exports write out as vectors.
+export default function ShapeLayerContent({ layer }: ShapeLayerContentProps) {
+  const { outline, head } = shapePaths(layer);
+  const { stroke } = layer;
+
+  return (
+    <svg
+      width={layer.width}
+      height={layer.height}
+      viewBox={`0 0 ${layer.width} ${layer.height}`}
+      className="block overflow-visible"
+    >
+      <path
+        d={outline}
+        fill={isLinearShape(layer) ? 'none' : layer.fill ?? 'none'}
+        stroke={stroke?.color ?? 'none'}
+        strokeWidth={stroke?.width}
+        strokeDasharray={stroke ? strokeDashArray(stroke) : undefined}
+        strokeLinecap={stroke?.dash === 'dotted' ? 'round' : 'butt'}
+        strokeLinejoin="round"
+      />
+      {head && stroke && <path d={head} fill={stroke.color} />}
+    </svg>
+  );
+}
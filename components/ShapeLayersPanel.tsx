@@ -0,0 +1,120 @@
+"use client";
+
+import { ArrowDown, ArrowRight, ArrowUp, Circle, Copy, Hexagon, Minus, Square, Star, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { cn } from '@/lib/utils';
+import type { ShapeKind, ShapeLayer } from '@/lib/poster/document';
+
+const SHAPE_BUTTONS: { shape: ShapeKind; label: string; icon: typeof Square }[] = [
+  { shape: 'rectangle', label: 'Rectangle', icon: Square },
+  { shape: 'ellipse', label: 'Ellipse', icon: Circle },
+  { shape: 'line', label: 'Line', icon: Minus },
+  { shape: 'arrow', label: 'Arrow', icon: ArrowRight },
+  { shape: 'polygon', label: 'Polygon', icon: Hexagon },
+  { shape: 'star', label: 'Star', icon: Star },
+];
+
+const SHAPE_ICONS = Object.fromEntries(SHAPE_BUTTONS.map(({ shape, icon }) => [shape, icon])) as Record<
+  ShapeKind,
+  typeof Square
+>;
+
+interface ShapeLayersPanelProps {
+  // In document order, bottom to top.
+  layers: ShapeLayer[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (shape: ShapeKind) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBringForward: (id: string) => void;
+  onSendBackward: (id: string) => void;
+}
+
+function ShapeIcon({ shape }: { shape: ShapeKind }) {
+  const Icon = SHAPE_ICONS[shape];
+  return <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />;
+}
+
+export default function ShapeLayersPanel({
+  layers,
+  selectedId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onDelete,
+  onBringForward,
+  onSendBackward,
+}: ShapeLayersPanelProps) {
+  const topFirst = [...layers].reverse();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1">
+        {SHAPE_BUTTONS.map(({ shape, label, icon: Icon }) => (
+          <Button key={shape} type="button" variant="outline" size="icon" title={label} onClick={() => onAdd(shape)}>
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+      </div>
+      {topFirst.length === 0 && <p className="text-sm text-muted-foreground">No shapes yet.</p>}
+      <ul className="space-y-2">
+        {topFirst.map((layer, index) => (
+          <li
+            key={layer.id}
+            className={cn(
+              'flex items-center gap-2 rounded-md border p-2',
+              layer.id === selectedId && 'border-sky-500'
+            )}
+            onClick={() => onSelect(layer.id)}
+          >
+            <ShapeIcon shape={layer.shape} />
+            <span className="flex-1 truncate text-sm font-medium">{layer.name}</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Bring forward"
+              disabled={index === 0}
+              onClick={() => onBringForward(layer.id)}
+            >
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Send backward"
+              disabled={index === topFirst.length - 1}
+              onClick={() => onSendBackward(layer.id)}
+            >
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Duplicate"
+              onClick={() => onDuplicate(layer.id)}
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Delete"
+              onClick={() => onDelete(layer.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
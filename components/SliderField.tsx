@@ -0,0 +1,34 @@
+"use client";
+
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+
+interface SliderFieldProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  format?: (value: number) => string;
+  onChange: (value: number) => void;
+}
+
+export default function SliderField({
+  label,
+  value,
+  min,
+  max,
+  step = 1,
+  format = String,
+  onChange,
+}: SliderFieldProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <span className="text-xs tabular-nums text-muted-foreground">{format(value)}</span>
+      </div>
+      <Slider value={[value]} min={min} max={max} step={step} onValueChange={([next]) => onChange(next)} />
+    </div>
+  );
+}
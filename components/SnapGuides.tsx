@@ -0,0 +1,47 @@
+"use client";
+
+import type { SnapDistance, SnapGuide } from '@/lib/poster/snapping';
+
+interface SnapGuidesProps {
+  guides: SnapGuide[];
+  distances: SnapDistance[];
+}
+
+// Pink alignment lines and gap readouts shown while a layer is dragged onto a snap.
+export default function SnapGuides({ guides, distances }: SnapGuidesProps) {
+  return (
+    <div data-editor-chrome className="pointer-events-none absolute inset-0 z-50">
+      {guides.map((guide, index) => (
+        <div
+          key={`guide-${index}`}
+          className="absolute bg-pink-500"
+          style={
+            guide.axis === 'x'
+              ? { left: guide.position - 0.5, top: guide.start, width: 1, height: guide.end - guide.start }
+              : { top: guide.position - 0.5, left: guide.start, height: 1, width: guide.end - guide.start }
+          }
+        />
+      ))}
+      {distances.map((distance, index) => {
+        const start = Math.min(distance.from, distance.to);
+        const length = Math.abs(distance.to - distance.from);
+        return (
+          <div
+            key={`distance-${index}`}
+            className="absolute flex items-center justify-center"
+            style={
+              distance.axis === 'x'
+                ? { left: start, top: distance.at - 0.5, width: length, height: 1 }
+                : { top: start, left: distance.at - 0.5, height: length, width: 1 }
+            }
+          >
+            <div className="absolute inset-0 border-pink-500" style={{ borderStyle: 'dashed', borderWidth: 0.5 }} />
+            <span className="relative whitespace-nowrap rounded bg-pink-500 px-1 text-[10px] leading-4 text-white">
+              {Math.round(length)}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
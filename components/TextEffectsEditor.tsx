@@ -0,0 +1,253 @@
+"use client";
+
+import { useRef } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import GradientStopsField from './GradientStopsField';
+import type { TextEffect, TextEffectType, TextFill, TextStyle } from '@/lib/poster/document';
+import { hexToRgba } from '@/lib/poster/color';
+
+type FillMode = 'solid' | TextFill['type'];
+
+const FILL_MODES: { value: FillMode; label: string }[] = [
+  { value: 'solid', label: 'Solid color' },
+  { value: 'linear', label: 'Linear gradient' },
+  { value: 'radial', label: 'Radial gradient' },
+  { value: 'image', label: 'Image knockout' },
+];
+
+const EFFECT_LABELS: Record<TextEffectType, string> = {
+  shadow: 'Shadow',
+  glow: 'Glow',
+  outline: 'Outline',
+};
+
+const NEW_EFFECTS: { [T in TextEffectType]: Extract<TextEffect, { type: T }> } = {
+  shadow: { type: 'shadow', offsetX: 2, offsetY: 2, blur: 4, color: '#000000', opacity: 0.5 },
+  glow: { type: 'glow', blur: 8, color: '#ffffff', opacity: 0.8 },
+  outline: { type: 'outline', width: 2, color: '#000000' },
+};
+
+function effectSwatch(effect: TextEffect) {
+  return effect.type === 'outline' ? effect.color : hexToRgba(effect.color, effect.opacity);
+}
+
+interface EffectFieldsProps {
+  effect: TextEffect;
+  onChange: (effect: TextEffect) => void;
+}
+
+function EffectFields({ effect, onChange }: EffectFieldsProps) {
+  if (effect.type === 'outline') {
+    return (
+      <>
+        <SliderField
+          label="Width"
+          value={effect.width}
+          min={0.5}
+          max={20}
+          step={0.5}
+          format={(value) => `${value}px`}
+          onChange={(width) => onChange({ ...effect, width })}
+        />
+        <ColorField value={effect.color} onChange={(color) => onChange({ ...effect, color })} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      {effect.type === 'shadow' && (
+        <>
+          <SliderField
+            label="Offset X"
+            value={effect.offsetX}
+            min={-20}
+            max={20}
+            format={(value) => `${value}px`}
+            onChange={(offsetX) => onChange({ ...effect, offsetX })}
+          />
+          <SliderField
+            label="Offset Y"
+            value={effect.offsetY}
+            min={-20}
+            max={20}
+            format={(value) => `${value}px`}
+            onChange={(offsetY) => onChange({ ...effect, offsetY })}
+          />
+        </>
+      )}
+      <SliderField
+        label="Blur"
+        value={effect.blur}
+        min={0}
+        max={40}
+        format={(value) => `${value}px`}
+        onChange={(blur) => onChange({ ...effect, blur })}
+      />
+      <SliderField
+        label="Opacity"
+        value={effect.opacity}
+        min={0}
+        max={1}
+        step={0.05}
+        format={(value) => `${Math.round(value * 100)}%`}
+        onChange={(opacity) => onChange({ ...effect, opacity })}
+      />
+      <ColorField value={effect.color} onChange={(color) => onChange({ ...effect, color })} />
+    </>
+  );
+}
+
+interface GradientFieldsProps {
+  fill: Extract<TextFill, { type: 'linear' | 'radial' }>;
+  onChange: (fill: TextFill) => void;
+}
+
+function GradientFields({ fill, onChange }: GradientFieldsProps) {
+  return (
+    <div className="space-y-3">
+      {fill.type === 'linear' && (
+        <SliderField
+          label="Angle"
+          value={fill.angle}
+          min={0}
+          max={360}
+          format={(value) => `${value}°`}
+          onChange={(angle) => onChange({ ...fill, angle })}
+        />
+      )}
+      <GradientStopsField stops={fill.stops} onChange={(stops) => onChange({ ...fill, stops })} />
+    </div>
+  );
+}
+
+interface TextEffectsEditorProps {
+  style: TextStyle;
+  assetUrls: Record<string, string>;
+  onChange: (style: Partial<TextStyle>) => void;
+  onUploadFillImage: (file: File) => void;
+}
+
+export default function TextEffectsEditor({ style, assetUrls, onChange, onUploadFillImage }: TextEffectsEditorProps) {
+  const imageInputRef = useRef<HTMLInputElement>(null);
+  const { fill, effects } = style;
+
+  const changeFillMode = (mode: FillMode) => {
+    switch (mode) {
+      case 'solid':
+        onChange({ fill: null });
+        break;
+      case 'linear':
+      case 'radial': {
+        const stops =
+          fill && fill.type !== 'image'
+            ? fill.stops
+            : [
+                { offset: 0, color: style.color },
+                { offset: 1, color: '#000000' },
+              ];
+        onChange({ fill: mode === 'linear' ? { type: 'linear', angle: 180, stops } : { type: 'radial', stops } });
+        break;
+      }
+      case 'image':
+        imageInputRef.current?.click();
+        break;
+    }
+  };
+
+  const setEffect = (index: number, effect: TextEffect) =>
+    onChange({ effects: effects.map((current, i) => (i === index ? effect : current)) });
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label>Fill</Label>
+        <Select value={fill?.type ?? 'solid'} onValueChange={(mode) => changeFillMode(mode as FillMode)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FILL_MODES.map((mode) => (
+              <SelectItem key={mode.value} value={mode.value}>
+                {mode.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <input
+          ref={imageInputRef}
+          type="file"
+          accept="image/*"
+          className="hidden"
+          onChange={(event) => {
+            const file = event.target.files?.[0];
+            event.target.value = '';
+            if (file) onUploadFillImage(file);
+          }}
+        />
+      </div>
+      {fill && fill.type !== 'image' && <GradientFields fill={fill} onChange={(next) => onChange({ fill: next })} />}
+      {fill?.type === 'image' && (
+        <div className="flex items-center gap-2">
+          <span
+            className="h-9 w-9 rounded border bg-gray-200 bg-cover bg-center"
+            style={assetUrls[fill.assetId] ? { backgroundImage: `url("${assetUrls[fill.assetId]}")` } : undefined}
+          />
+          <Button type="button" variant="outline" size="sm" onClick={() => imageInputRef.current?.click()}>
+            Replace image
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label>Effects</Label>
+        {effects.length === 0 && <p className="text-sm text-muted-foreground">No effects.</p>}
+        {effects.map((effect, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button type="button" variant="outline" size="sm" className="flex-1 justify-start">
+                  <span className="mr-2 h-4 w-4 rounded-full border" style={{ backgroundColor: effectSwatch(effect) }} />
+                  {EFFECT_LABELS[effect.type]}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-72 space-y-4">
+                <EffectFields effect={effect} onChange={(next) => setEffect(index, next)} />
+              </PopoverContent>
+            </Popover>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              title="Remove effect"
+              onClick={() => onChange({ effects: effects.filter((_, i) => i !== index) })}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(NEW_EFFECTS) as TextEffectType[]).map((type) => (
+            <Button
+              key={type}
+              type="button"
+              variant="outline"
+              size="sm"
+              // Text has a single stroke, so only one outline applies.
+              disabled={type === 'outline' && effects.some((effect) => effect.type === 'outline')}
+              onClick={() => onChange({ effects: [...effects, NEW_EFFECTS[type]] })}
+            >
+              <Plus className="mr-1 h-3 w-3" /> {EFFECT_LABELS[type]}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
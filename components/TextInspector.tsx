@@ -0,0 +1,254 @@
+"use client";
+
+import { useRef } from 'react';
+import { AlignCenter, AlignJustify, AlignLeft, AlignRight, Italic, Upload } from 'lucide-react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import ColorField from './ColorField';
+import SliderField from './SliderField';
+import TextEffectsEditor from './TextEffectsEditor';
+import type { TextFit, TextLayer, TextStyle } from '@/lib/poster/document';
+import { FONT_FILE_ACCEPT, type FontOption } from '@/lib/poster/fonts';
+
+const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900];
+
+const ALIGNMENTS = [
+  { value: 'left', label: 'Align left', icon: AlignLeft },
+  { value: 'center', label: 'Align center', icon: AlignCenter },
+  { value: 'right', label: 'Align right', icon: AlignRight },
+  { value: 'justify', label: 'Justify', icon: AlignJustify },
+] as const;
+
+const TRANSFORMS: { value: TextStyle['transform']; label: string }[] = [
+  { value: 'none', label: 'As typed' },
+  { value: 'uppercase', label: 'UPPERCASE' },
+  { value: 'lowercase', label: 'lowercase' },
+  { value: 'capitalize', label: 'Capitalize' },
+];
+
+const DIRECTIONS: { value: TextStyle['direction']; label: string }[] = [
+  { value: 'ltr', label: 'Left to right' },
+  { value: 'rtl', label: 'Right to left' },
+  { value: 'vertical', label: 'Vertical' },
+];
+
+const FIT_MODES: { value: TextFit; label: string }[] = [
+  { value: 'fixed', label: 'Fixed size' },
+  { value: 'shrink', label: 'Shrink to fit' },
+  { value: 'grow', label: 'Grow to fill' },
+];
+
+interface TextInspectorProps {
+  layer: TextLayer;
+  fonts: FontOption[];
+  assetUrls: Record<string, string>;
+  onChange: (style: Partial<TextStyle>) => void;
+  onFitChange: (fit: TextFit) => void;
+  onUploadFont: (file: File) => void;
+  onUploadFillImage: (file: File) => void;
+}
+
+export default function TextInspector({
+  layer,
+  fonts,
+  assetUrls,
+  onChange,
+  onFitChange,
+  onUploadFont,
+  onUploadFillImage,
+}: TextInspectorProps) {
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const { style } = layer;
+
+  return (
+    <div className="space-y-4 rounded-lg border p-3">
+      <h2 className="text-sm font-semibold">Typography · {layer.name}</h2>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Font</Label>
+            <button
+              type="button"
+              className="flex items-center text-xs text-muted-foreground hover:text-foreground"
+              onClick={() => fontInputRef.current?.click()}
+            >
+              <Upload className="mr-1 h-3 w-3" /> Upload
+            </button>
+            <input
+              ref={fontInputRef}
+              type="file"
+              accept={FONT_FILE_ACCEPT}
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                event.target.value = '';
+                if (file) onUploadFont(file);
+              }}
+            />
+          </div>
+          <Select value={style.fontFamily} onValueChange={(fontFamily) => onChange({ fontFamily })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {fonts.map((font) => (
+                <SelectItem key={font.family} value={font.family}>
+                  <span style={{ fontFamily: font.stack }}>{font.label}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Weight</Label>
+          <Select
+            value={String(style.fontWeight)}
+            onValueChange={(fontWeight) => onChange({ fontWeight: Number(fontWeight) })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FONT_WEIGHTS.map((weight) => (
+                <SelectItem key={weight} value={String(weight)}>
+                  {weight}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-2">
+          <Label>Fit to box</Label>
+          <Select value={layer.fit} onValueChange={(fit) => onFitChange(fit as TextFit)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FIT_MODES.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Direction</Label>
+          <Select
+            value={style.direction}
+            onValueChange={(direction) => onChange({ direction: direction as TextStyle['direction'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DIRECTIONS.map((direction) => (
+                <SelectItem key={direction.value} value={direction.value}>
+                  {direction.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {layer.fit !== 'grow' && (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <SliderField
+              label={layer.fit === 'shrink' ? 'Max size' : 'Size'}
+              value={style.fontSize}
+              min={6}
+              max={240}
+              format={(value) => `${value}px`}
+              onChange={(fontSize) => onChange({ fontSize })}
+            />
+          </div>
+          <Input
+            type="number"
+            min={1}
+            value={style.fontSize}
+            onChange={(event) => {
+              const fontSize = Number(event.target.value);
+              if (fontSize > 0) onChange({ fontSize });
+            }}
+            className="w-20"
+          />
+        </div>
+      )}
+
+      <SliderField
+        label="Letter spacing"
+        value={style.letterSpacing}
+        min={-0.1}
+        max={0.5}
+        step={0.01}
+        format={(value) => `${value.toFixed(2)}em`}
+        onChange={(letterSpacing) => onChange({ letterSpacing })}
+      />
+      <SliderField
+        label="Line height"
+        value={style.lineHeight}
+        min={0.7}
+        max={3}
+        step={0.05}
+        format={(value) => value.toFixed(2)}
+        onChange={(lineHeight) => onChange({ lineHeight })}
+      />
+
+      <div className="flex flex-wrap items-center gap-1">
+        {ALIGNMENTS.map(({ value, label, icon: Icon }) => (
+          <Button
+            key={value}
+            type="button"
+            size="icon"
+            variant={style.align === value ? 'secondary' : 'ghost'}
+            title={label}
+            onClick={() => onChange({ align: value })}
+          >
+            <Icon className="h-4 w-4" />
+          </Button>
+        ))}
+        <Button
+          type="button"
+          size="icon"
+          variant={style.italic ? 'secondary' : 'ghost'}
+          title="Italic"
+          onClick={() => onChange({ italic: !style.italic })}
+        >
+          <Italic className="h-4 w-4" />
+        </Button>
+        <Select
+          value={style.transform}
+          onValueChange={(transform) => onChange({ transform: transform as TextStyle['transform'] })}
+        >
+          <SelectTrigger className="ml-auto w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TRANSFORMS.map((transform) => (
+              <SelectItem key={transform.value} value={transform.value}>
+                {transform.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ColorField value={style.color} onChange={(color) => onChange({ color })} />
+
+      <TextEffectsEditor
+        style={style}
+        assetUrls={assetUrls}
+        onChange={onChange}
+        onUploadFillImage={onUploadFillImage}
+      />
+    </div>
+  );
+}
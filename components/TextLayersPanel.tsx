@@ -0,0 +1,115 @@
+"use client";
+
+import { ArrowDown, ArrowUp, Copy, Plus, Trash2 } from 'lucide-react';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import { cn } from '@/lib/utils';
+import {
+  TEXT_LAYER_PRESETS,
+  type TextLayer,
+  type TextLayerPreset,
+} from '@/lib/poster/document';
+import { spansToText } from '@/lib/poster/rich-text';
+
+interface TextLayersPanelProps {
+  // In document order, bottom to top.
+  layers: TextLayer[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: (preset: TextLayerPreset) => void;
+  onChangeText: (id: string, text: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onBringForward: (id: string) => void;
+  onSendBackward: (id: string) => void;
+}
+
+export default function TextLayersPanel({
+  layers,
+  selectedId,
+  onSelect,
+  onAdd,
+  onChangeText,
+  onDuplicate,
+  onDelete,
+  onBringForward,
+  onSendBackward,
+}: TextLayersPanelProps) {
+  const topFirst = [...layers].reverse();
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(TEXT_LAYER_PRESETS) as TextLayerPreset[]).map((preset) => (
+          <Button key={preset} type="button" variant="outline" size="sm" onClick={() => onAdd(preset)}>
+            <Plus className="mr-1 h-3 w-3" /> {TEXT_LAYER_PRESETS[preset].name}
+          </Button>
+        ))}
+      </div>
+      {topFirst.length === 0 && <p className="text-sm text-muted-foreground">No text layers yet.</p>}
+      <ul className="space-y-2">
+        {topFirst.map((layer, index) => (
+          <li
+            key={layer.id}
+            className={cn('rounded-md border p-2', layer.id === selectedId && 'border-sky-500')}
+            onFocusCapture={() => onSelect(layer.id)}
+            onClick={() => onSelect(layer.id)}
+          >
+            <div className="mb-1 flex items-center justify-between">
+              <span className="text-sm font-medium">{layer.name}</span>
+              <div className="flex">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Bring forward"
+                  disabled={index === 0}
+                  onClick={() => onBringForward(layer.id)}
+                >
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Send backward"
+                  disabled={index === topFirst.length - 1}
+                  onClick={() => onSendBackward(layer.id)}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Duplicate"
+                  onClick={() => onDuplicate(layer.id)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  title="Delete"
+                  onClick={() => onDelete(layer.id)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <Textarea
+              value={spansToText(layer.spans)}
+              rows={2}
+              onChange={(event) => onChangeText(layer.id, event.target.value)}
+            />
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
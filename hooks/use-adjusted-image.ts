@@ -0,0 +1,76 @@
+'use client';
+
+import * as React from 'react';
+
+import { FULL_IMAGE_CROP, type ImageAdjustments, type ImageCrop } from '@/lib/poster/document';
+import { isNeutralAdjustments, renderAdjustedImage } from '@/lib/poster/filters';
+
+// Slider drags fire many changes; only re-render the pixels once they settle.
+const RENDER_DELAY_MS = 120;
+
+// Decoded images by URL, shared by every layer showing the same asset.
+const decoded = new Map<string, Promise<HTMLImageElement>>();
+
+function decodeImage(url: string) {
+  let image = decoded.get(url);
+  if (!image) {
+    image = new Promise((resolve, reject) => {
+      const element = new Image();
+      element.onload = () => resolve(element);
+      element.onerror = () => reject(new Error('Could not decode image'));
+      element.src = url;
+    });
+    // A failed decode is not kept, so the next render tries again.
+    image.catch(() => {
+      if (decoded.get(url) === image) decoded.delete(url);
+    });
+    decoded.set(url, image);
+  }
+  return image;
+}
+
+// Called when an asset URL is revoked; the image behind it can never be decoded again.
+function forgetDecodedImage(url: string) {
+  decoded.delete(url);
+}
+
+// Returns a URL of the image with its adjustments baked in, or the original URL when there are
+// none. While a new version renders, the previous one stays on screen.
+function useAdjustedImage(url: string | undefined, adjustments: ImageAdjustments, crop: ImageCrop) {
+  const neutral = isNeutralAdjustments(adjustments);
+  const [adjustedUrl, setAdjustedUrl] = React.useState<string | null>(null);
+  // Only the vignette depends on the crop, so panning does not re-render otherwise.
+  const vignetteCrop = adjustments.vignette > 0 ? crop : null;
+
+  React.useEffect(() => {
+    if (!url || neutral) {
+      setAdjustedUrl(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = window.setTimeout(() => {
+      decodeImage(url)
+        .then((image) => renderAdjustedImage(image, adjustments, vignetteCrop ?? FULL_IMAGE_CROP))
+        .then((blob) => {
+          if (!cancelled) setAdjustedUrl(URL.createObjectURL(blob));
+        })
+        .catch(() => undefined);
+    }, RENDER_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timeout);
+    };
+  }, [url, neutral, adjustments, vignetteCrop]);
+
+  React.useEffect(() => {
+    return () => {
+      if (adjustedUrl) URL.revokeObjectURL(adjustedUrl);
+    };
+  }, [adjustedUrl]);
+
+  return neutral ? url : adjustedUrl ?? url;
+}
+
+export { useAdjustedImage, forgetDecodedImage };
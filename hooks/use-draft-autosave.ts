@@ -0,0 +1,48 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PosterDocument } from '@/lib/poster/document';
+import { referencedAssets, type PosterAsset } from '@/lib/poster/assets';
+import { saveDraft, type PosterDraft } from '@/lib/poster/storage';
+
+const AUTOSAVE_DELAY_MS = 800;
+
+type AutosaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+function useDraftAutosave(
+  poster: PosterDocument,
+  assets: Record<string, PosterAsset>,
+  project: PosterDraft['project'],
+  enabled: boolean
+) {
+  const [status, setStatus] = React.useState<AutosaveStatus>('idle');
+  const [savedAt, setSavedAt] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (!enabled) return;
+
+    const timeout = setTimeout(() => {
+      const draft: PosterDraft = {
+        document: poster,
+        assets: referencedAssets(poster, assets),
+        savedAt: Date.now(),
+        project,
+      };
+
+      setStatus('saving');
+      saveDraft(draft)
+        .then(() => {
+          setSavedAt(draft.savedAt);
+          setStatus('saved');
+        })
+        .catch(() => setStatus('error'));
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [poster, assets, project, enabled]);
+
+  return { status, savedAt };
+}
+
+export { useDraftAutosave };
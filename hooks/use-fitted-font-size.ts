@@ -0,0 +1,29 @@
+'use client';
+
+import * as React from 'react';
+
+import type { TextLayer } from '@/lib/poster/document';
+import { fitFontSize } from '@/lib/poster/text-fit';
+
+function useFittedFontSize(layer: TextLayer) {
+  const { spans, fit, style, width, height } = layer;
+  const [fittedSize, setFittedSize] = React.useState(style.fontSize);
+  // Re-measure once web fonts finish loading, since fallback metrics differ.
+  const [fontsVersion, setFontsVersion] = React.useState(0);
+
+  React.useEffect(() => {
+    const onLoadingDone = () => setFontsVersion((version) => version + 1);
+    document.fonts.addEventListener('loadingdone', onLoadingDone);
+    return () => document.fonts.removeEventListener('loadingdone', onLoadingDone);
+  }, []);
+
+  React.useEffect(() => {
+    if (fit !== 'fixed') {
+      setFittedSize(fitFontSize({ spans, fit, style, width, height }));
+    }
+  }, [spans, fit, style, width, height, fontsVersion]);
+
+  return fit === 'fixed' ? style.fontSize : fittedSize;
+}
+
+export { useFittedFontSize };
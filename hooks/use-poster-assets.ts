@@ -0,0 +1,43 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PosterAsset } from '@/lib/poster/assets';
+import { forgetDecodedImage } from './use-adjusted-image';
+
+function usePosterAssets() {
+  const [assets, setAssets] = React.useState<Record<string, PosterAsset>>({});
+  const urlCache = React.useRef(new Map<string, string>());
+
+  const urls = React.useMemo(() => {
+    const next: Record<string, string> = {};
+    Object.values(assets).forEach((asset) => {
+      const url = urlCache.current.get(asset.id) ?? URL.createObjectURL(asset.blob);
+      urlCache.current.set(asset.id, url);
+      next[asset.id] = url;
+    });
+    return next;
+  }, [assets]);
+
+  React.useEffect(() => {
+    urlCache.current.forEach((url, id) => {
+      if (!assets[id]) {
+        URL.revokeObjectURL(url);
+        forgetDecodedImage(url);
+        urlCache.current.delete(id);
+      }
+    });
+  }, [assets]);
+
+  const addAsset = React.useCallback((asset: PosterAsset) => {
+    setAssets((current) => ({ ...current, [asset.id]: asset }));
+  }, []);
+
+  const replaceAssets = React.useCallback((list: PosterAsset[]) => {
+    setAssets(Object.fromEntries(list.map((asset) => [asset.id, asset])));
+  }, []);
+
+  return { assets, urls, addAsset, replaceAssets };
+}
+
+export { usePosterAssets };
@@ -0,0 +1,44 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PosterFont } from '@/lib/poster/document';
+import type { PosterAsset } from '@/lib/poster/assets';
+import { quoteFontFamily } from '@/lib/poster/fonts';
+
+// Registers the poster's uploaded fonts with the browser and unregisters ones that go away.
+function usePosterFonts(fonts: PosterFont[], assets: Record<string, PosterAsset>) {
+  // Faces are recorded before they finish loading, so a re-run in the meantime does not add a second.
+  const registered = React.useRef(new Map<string, FontFace | null>());
+
+  React.useEffect(() => {
+    const wanted = new Set(fonts.map((font) => `${font.family}\n${font.assetId}`));
+
+    registered.current.forEach((face, key) => {
+      if (!wanted.has(key)) {
+        if (face) document.fonts.delete(face);
+        registered.current.delete(key);
+      }
+    });
+
+    fonts.forEach((font) => {
+      const key = `${font.family}\n${font.assetId}`;
+      const asset = assets[font.assetId];
+      if (registered.current.has(key) || !asset) return;
+
+      registered.current.set(key, null);
+      asset.blob
+        .arrayBuffer()
+        .then((data) => new FontFace(quoteFontFamily(font.family), data).load())
+        .then((face) => {
+          // The font was removed while it loaded.
+          if (!registered.current.has(key)) return;
+          document.fonts.add(face);
+          registered.current.set(key, face);
+        })
+        .catch(() => registered.current.delete(key));
+    });
+  }, [fonts, assets]);
+}
+
+export { usePosterFonts };
@@ -0,0 +1,51 @@
+'use client';
+
+import * as React from 'react';
+
+import type { PosterDocument } from '@/lib/poster/document';
+import type { PosterAction } from '@/lib/poster/reducer';
+import {
+  createHistory,
+  historyReducer,
+  type HistoryAction,
+  type PosterHistory,
+} from '@/lib/poster/history';
+
+type TravelAction = Extract<HistoryAction, { type: 'UNDO' | 'REDO' | 'JUMP' | 'RESET' }>;
+
+function usePosterHistory(createInitialDocument: () => PosterDocument) {
+  const [history, dispatchHistory] = React.useReducer(historyReducer, undefined, () =>
+    createHistory(createInitialDocument())
+  );
+  const historyRef = React.useRef<PosterHistory>(history);
+  historyRef.current = history;
+
+  const dispatch = React.useCallback((action: PosterAction) => {
+    dispatchHistory({ type: 'COMMIT', action, timestamp: Date.now() });
+  }, []);
+
+  // Travel actions return the document they land on so callers can resync
+  // state that lives outside the history, such as form inputs.
+  const travel = React.useCallback((action: TravelAction) => {
+    const next = historyReducer(historyRef.current, action);
+    dispatchHistory(action);
+    return next.present.document;
+  }, []);
+
+  return {
+    poster: history.present.document,
+    history,
+    dispatch,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undo: React.useCallback(() => travel({ type: 'UNDO' }), [travel]),
+    redo: React.useCallback(() => travel({ type: 'REDO' }), [travel]),
+    jumpTo: React.useCallback((entryId: number) => travel({ type: 'JUMP', entryId }), [travel]),
+    reset: React.useCallback(
+      (document: PosterDocument, label = 'Open poster') => travel({ type: 'RESET', document, label }),
+      [travel]
+    ),
+  };
+}
+
+export { usePosterHistory };
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { createDefaultDocument, type PosterDocument } from './document';
+import { exportPosterArchive, importPosterArchive } from './archive';
+
+function documentWithFont(): PosterDocument {
+  return { ...createDefaultDocument(), fonts: [{ family: 'Display', assetId: 'font-1' }] };
+}
+
+describe('poster archives', () => {
+  it('round-trips a document and its assets', async () => {
+    const document = documentWithFont();
+    const blob = new Blob([new Uint8Array([1, 2, 3])], { type: 'font/ttf' });
+    const font = { id: 'font-1', name: 'Display.ttf', blob };
+
+    const imported = await importPosterArchive(await exportPosterArchive(document, [font]));
+
+    expect(imported.document).toEqual(document);
+    expect(imported.missingAssets).toEqual([]);
+    expect(imported.assets).toHaveLength(1);
+    expect(imported.assets[0]).toMatchObject({ id: 'font-1', name: 'Display.ttf' });
+    expect(new Uint8Array(await imported.assets[0].blob.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3]));
+  });
+
+  it('names missing assets by what uses them', async () => {
+    const imported = await importPosterArchive(await exportPosterArchive(documentWithFont(), []));
+
+    expect(imported.missingAssets).toEqual(['Font "Display"']);
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(importPosterArchive(new Blob(['not a zip']))).rejects.toThrow('This is not a poster file.');
+  });
+
+  it('rejects archives without a valid manifest', async () => {
+    const archive = new Blob([zipSync({ 'manifest.json': strToU8('{"format":"something-else"}') })]);
+
+    await expect(importPosterArchive(archive)).rejects.toThrow('The poster file has an invalid manifest.');
+  });
+});
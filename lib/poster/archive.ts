@@ -0,0 +1,150 @@
+import * as z from 'zod';
+import { strFromU8, strToU8, unzip, zip, type AsyncZippable, type Unzipped } from 'fflate';
+import { collectAssetIds, POSTER_DOCUMENT_VERSION, type PosterDocument } from './document';
+import type { PosterAsset } from './assets';
+import { readPosterDocument } from './migrations';
+
+const ARCHIVE_FORMAT = 'magazine-poster';
+const ARCHIVE_FORMAT_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+export const POSTER_FILE_EXTENSION = '.poster';
+
+const manifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  formatVersion: z.number().int().positive(),
+  documentVersion: z.number().int().positive(),
+  createdAt: z.string(),
+  document: z.string(),
+  assets: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      path: z.string(),
+      mimeType: z.string(),
+    })
+  ),
+});
+
+export interface ImportedPoster {
+  document: PosterDocument;
+  assets: PosterAsset[];
+  // Names of assets the document references but the archive does not contain.
+  missingAssets: string[];
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'font/ttf': 'ttf',
+  'font/otf': 'otf',
+  'font/woff2': 'woff2',
+};
+
+function zipAsync(files: AsyncZippable) {
+  return new Promise<Uint8Array>((resolve, reject) => {
+    zip(files, (error, data) => (error ? reject(error) : resolve(data)));
+  });
+}
+
+function unzipAsync(data: Uint8Array) {
+  return new Promise<Unzipped>((resolve, reject) => {
+    unzip(data, (error, files) => (error ? reject(error) : resolve(files)));
+  });
+}
+
+function readJson(files: Unzipped, path: string) {
+  const file = files[path];
+  if (!file) {
+    throw new Error(`The poster file is missing ${path}.`);
+  }
+  try {
+    return JSON.parse(strFromU8(file));
+  } catch {
+    throw new Error(`${path} in the poster file is not valid JSON.`);
+  }
+}
+
+// What uses the asset, in words the user recognises; asset ids mean nothing to them.
+function describeAssetUse(document: PosterDocument, assetId: string) {
+  const font = document.fonts.find((entry) => entry.assetId === assetId);
+  if (font) return `Font "${font.family}"`;
+  const sticker = document.stickers.find((entry) => entry.assetId === assetId);
+  if (sticker) return `Sticker "${sticker.name}"`;
+  for (const layer of document.layers) {
+    if (layer.type === 'image' && layer.assetId === assetId) return layer.name;
+    if (layer.type === 'text' && layer.style.fill?.type === 'image' && layer.style.fill.assetId === assetId) {
+      return `${layer.name} (image fill)`;
+    }
+  }
+  return 'Background image';
+}
+
+export async function exportPosterArchive(document: PosterDocument, assets: PosterAsset[]) {
+  const files: AsyncZippable = {
+    'document.json': strToU8(JSON.stringify(document, null, 2)),
+  };
+
+  const manifestAssets = await Promise.all(
+    assets.map(async (asset) => {
+      const path = `assets/${asset.id}.${MIME_EXTENSIONS[asset.blob.type] ?? 'bin'}`;
+      // Images and fonts are already compressed, so store them as-is.
+      files[path] = [new Uint8Array(await asset.blob.arrayBuffer()), { level: 0 }];
+      return { id: asset.id, name: asset.name, path, mimeType: asset.blob.type };
+    })
+  );
+
+  const manifest: z.infer<typeof manifestSchema> = {
+    format: ARCHIVE_FORMAT,
+    formatVersion: ARCHIVE_FORMAT_VERSION,
+    documentVersion: POSTER_DOCUMENT_VERSION,
+    createdAt: new Date().toISOString(),
+    document: 'document.json',
+    assets: manifestAssets,
+  };
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+
+  return new Blob([await zipAsync(files)], { type: 'application/zip' });
+}
+
+export async function importPosterArchive(file: Blob): Promise<ImportedPoster> {
+  let files: Unzipped;
+  try {
+    files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+  } catch {
+    throw new Error('This is not a poster file.');
+  }
+
+  const parsedManifest = manifestSchema.safeParse(readJson(files, MANIFEST_PATH));
+  if (!parsedManifest.success) {
+    throw new Error('The poster file has an invalid manifest.');
+  }
+  const manifest = parsedManifest.data;
+  if (manifest.formatVersion > ARCHIVE_FORMAT_VERSION) {
+    throw new Error('This poster file was made with a newer version of the app.');
+  }
+
+  const document = readPosterDocument(readJson(files, manifest.document));
+
+  const assets: PosterAsset[] = [];
+  const missingAssets: string[] = [];
+  manifest.assets.forEach((entry) => {
+    const data = files[entry.path];
+    if (data) {
+      assets.push({ id: entry.id, name: entry.name, blob: new Blob([data], { type: entry.mimeType }) });
+    } else {
+      missingAssets.push(entry.name);
+    }
+  });
+
+  collectAssetIds(document).forEach((id) => {
+    if (!manifest.assets.some((entry) => entry.id === id)) {
+      missingAssets.push(describeAssetUse(document, id));
+    }
+  });
+
+  return { document, assets, missingAssets };
+}
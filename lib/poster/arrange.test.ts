@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultDocument, createShapeLayer, type PosterDocument } from './document';
+import { alignLayers, distributeLayers } from './arrange';
+import { groupLayers } from './groups';
+
+const canvas = { width: 200, height: 100 };
+
+function documentWith(
+  boxes: { id: string; x: number; y: number; width?: number; locked?: boolean }[]
+): PosterDocument {
+  return {
+    ...createDefaultDocument(),
+    canvas,
+    layers: boxes.map(({ id, x, y, width = 10, locked = false }) => ({
+      ...createShapeLayer('rectangle', canvas),
+      id,
+      name: id,
+      x,
+      y,
+      width,
+      height: 10,
+      locked,
+    })),
+    groups: [],
+  };
+}
+
+describe('alignLayers', () => {
+  it('lines layers up with the outermost edge of the selection', () => {
+    const document = documentWith([
+      { id: 'a', x: 20, y: 0 },
+      { id: 'b', x: 50, y: 30 },
+    ]);
+
+    expect(alignLayers(document, ['a', 'b'], 'left')).toEqual([{ id: 'b', x: 20, y: 30 }]);
+    expect(alignLayers(document, ['a', 'b'], 'bottom')).toEqual([{ id: 'a', x: 20, y: 30 }]);
+  });
+
+  it('aligns a single layer with the canvas', () => {
+    const document = documentWith([{ id: 'a', x: 20, y: 0 }]);
+
+    expect(alignLayers(document, ['a'], 'center')).toEqual([{ id: 'a', x: 95, y: 0 }]);
+  });
+
+  it('moves a group as one piece', () => {
+    const document = groupLayers(
+      documentWith([
+        { id: 'a', x: 20, y: 0 },
+        { id: 'b', x: 40, y: 0 },
+        { id: 'c', x: 100, y: 50 },
+      ]),
+      ['a', 'b'],
+      { id: 'g', name: 'Group' }
+    );
+
+    expect(alignLayers(document, ['a', 'b', 'c'], 'right')).toEqual([
+      { id: 'a', x: 80, y: 0 },
+      { id: 'b', x: 100, y: 0 },
+    ]);
+  });
+
+  it('leaves locked layers where they are and out of the alignment', () => {
+    const document = documentWith([
+      { id: 'a', x: 20, y: 0 },
+      { id: 'b', x: 50, y: 30 },
+      { id: 'c', x: 0, y: 60, locked: true },
+    ]);
+
+    expect(alignLayers(document, ['a', 'b', 'c'], 'left')).toEqual([{ id: 'b', x: 20, y: 30 }]);
+  });
+
+  it('keeps a group with a locked layer whole and in place', () => {
+    const document = groupLayers(
+      documentWith([
+        { id: 'a', x: 20, y: 0 },
+        { id: 'b', x: 40, y: 0, locked: true },
+        { id: 'c', x: 100, y: 50 },
+        { id: 'd', x: 60, y: 70 },
+      ]),
+      ['a', 'b'],
+      { id: 'g', name: 'Group' }
+    );
+
+    expect(alignLayers(document, ['a', 'b', 'c', 'd'], 'left')).toEqual([{ id: 'c', x: 60, y: 50 }]);
+  });
+
+  it('leaves layers that are already aligned out of the moves', () => {
+    const document = documentWith([
+      { id: 'a', x: 20, y: 0 },
+      { id: 'b', x: 20, y: 30 },
+    ]);
+
+    expect(alignLayers(document, ['a', 'b'], 'left')).toEqual([]);
+  });
+});
+
+describe('distributeLayers', () => {
+  it('spaces layers evenly between the outermost two', () => {
+    const document = documentWith([
+      { id: 'a', x: 0, y: 0 },
+      { id: 'b', x: 20, y: 0 },
+      { id: 'c', x: 90, y: 0 },
+    ]);
+
+    expect(distributeLayers(document, ['a', 'b', 'c'], 'horizontal')).toEqual([{ id: 'b', x: 45, y: 0 }]);
+  });
+
+  it('needs at least three layers or groups', () => {
+    const document = documentWith([
+      { id: 'a', x: 0, y: 0 },
+      { id: 'b', x: 20, y: 0 },
+    ]);
+
+    expect(distributeLayers(document, ['a', 'b'], 'horizontal')).toEqual([]);
+  });
+});
@@ -0,0 +1,111 @@
+import type { PosterDocument } from './document';
+import { unionBounds, type Bounds } from './geometry';
+import { selectionUnits } from './groups';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+export interface LayerMove {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export const ALIGN_EDGES: { value: AlignEdge; label: string }[] = [
+  { value: 'left', label: 'Align left' },
+  { value: 'center', label: 'Align center' },
+  { value: 'right', label: 'Align right' },
+  { value: 'top', label: 'Align top' },
+  { value: 'middle', label: 'Align middle' },
+  { value: 'bottom', label: 'Align bottom' },
+];
+
+export const DISTRIBUTE_AXES: { value: DistributeAxis; label: string }[] = [
+  { value: 'horizontal', label: 'Distribute horizontally' },
+  { value: 'vertical', label: 'Distribute vertically' },
+];
+
+interface PlacedUnit {
+  layerIds: string[];
+  bounds: Bounds;
+}
+
+// A group with a locked layer cannot move without leaving that layer behind, so the whole group
+// sits the arrangement out, like a locked layer on its own.
+function placedUnits(document: PosterDocument, layerIds: string[]): PlacedUnit[] {
+  return selectionUnits(document, layerIds).flatMap((unit) => {
+    const layers = document.layers.filter((layer) => unit.layerIds.includes(layer.id));
+    if (layers.some((layer) => layer.locked)) return [];
+    return [{ layerIds: unit.layerIds, bounds: unionBounds(layers) }];
+  });
+}
+
+function moveUnits(document: PosterDocument, shifts: { unit: PlacedUnit; dx: number; dy: number }[]) {
+  return shifts.flatMap(({ unit, dx, dy }) =>
+    document.layers
+      .filter((layer) => unit.layerIds.includes(layer.id) && (dx !== 0 || dy !== 0))
+      .map((layer) => ({ id: layer.id, x: layer.x + dx, y: layer.y + dy }))
+  );
+}
+
+function alignShift(bounds: Bounds, target: Bounds, edge: AlignEdge) {
+  switch (edge) {
+    case 'left':
+      return { dx: target.left - bounds.left, dy: 0 };
+    case 'center':
+      return { dx: (target.left + target.right - bounds.left - bounds.right) / 2, dy: 0 };
+    case 'right':
+      return { dx: target.right - bounds.right, dy: 0 };
+    case 'top':
+      return { dx: 0, dy: target.top - bounds.top };
+    case 'middle':
+      return { dx: 0, dy: (target.top + target.bottom - bounds.top - bounds.bottom) / 2 };
+    case 'bottom':
+      return { dx: 0, dy: target.bottom - bounds.bottom };
+  }
+}
+
+// Lines the selected layers and groups up with each other as drawn, or with the canvas when the
+// selection is a single layer or group.
+export function alignLayers(document: PosterDocument, layerIds: string[], edge: AlignEdge): LayerMove[] {
+  const units = placedUnits(document, layerIds);
+  if (units.length === 0) return [];
+  const target =
+    units.length === 1
+      ? { left: 0, top: 0, right: document.canvas.width, bottom: document.canvas.height }
+      : {
+          left: Math.min(...units.map((unit) => unit.bounds.left)),
+          top: Math.min(...units.map((unit) => unit.bounds.top)),
+          right: Math.max(...units.map((unit) => unit.bounds.right)),
+          bottom: Math.max(...units.map((unit) => unit.bounds.bottom)),
+        };
+  return moveUnits(
+    document,
+    units.map((unit) => ({ unit, ...alignShift(unit.bounds, target, edge) }))
+  );
+}
+
+// Spaces three or more layers and groups evenly between the outermost two, which stay put.
+export function distributeLayers(document: PosterDocument, layerIds: string[], axis: DistributeAxis): LayerMove[] {
+  const units = placedUnits(document, layerIds);
+  if (units.length < 3) return [];
+  const start = (bounds: Bounds) => (axis === 'horizontal' ? bounds.left : bounds.top);
+  const size = (bounds: Bounds) =>
+    axis === 'horizontal' ? bounds.right - bounds.left : bounds.bottom - bounds.top;
+
+  const sorted = [...units].sort((a, b) => start(a.bounds) - start(b.bounds));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const span = start(last) + size(last) - start(first);
+  const gap = (span - sorted.reduce((total, unit) => total + size(unit.bounds), 0)) / (sorted.length - 1);
+
+  let position = start(first);
+  return moveUnits(
+    document,
+    sorted.map((unit) => {
+      const delta = position - start(unit.bounds);
+      position += size(unit.bounds) + gap;
+      return { unit, dx: axis === 'horizontal' ? delta : 0, dy: axis === 'vertical' ? delta : 0 };
+    })
+  );
+}
@@ -0,0 +1,30 @@
+import { collectAssetIds, type PosterDocument } from './document';
+
+export interface PosterAsset {
+  id: string;
+  name: string;
+  blob: Blob;
+}
+
+export function createAssetId() {
+  return `asset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createAsset(file: File | Blob, name = file instanceof File ? file.name : 'asset'): PosterAsset {
+  return { id: createAssetId(), name, blob: file };
+}
+
+export function loadImageSize(url: string) {
+  return new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = url;
+  });
+}
+
+export function referencedAssets(document: PosterDocument, assets: Record<string, PosterAsset>) {
+  return collectAssetIds(document)
+    .map((id) => assets[id])
+    .filter((asset): asset is PosterAsset => Boolean(asset));
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import type { BackgroundFill } from './document';
+import { backgroundCss } from './background';
+
+const canvas = { width: 30, height: 40 };
+
+const withFill = (fill: BackgroundFill | null, assetUrls?: Record<string, string>) =>
+  backgroundCss({ color: '#ffffff', fill }, canvas, assetUrls);
+
+const decodeSvg = (image: unknown) =>
+  decodeURIComponent(String(image).replace(/^url\("data:image\/svg\+xml,/, '').replace(/"\)$/, ''));
+
+describe('backgroundCss', () => {
+  it('is only the colour without a fill', () => {
+    expect(withFill(null)).toEqual({ backgroundColor: '#ffffff' });
+  });
+
+  it('sorts gradient stops by offset', () => {
+    const css = withFill({
+      type: 'linear',
+      angle: 90,
+      stops: [
+        { offset: 1, color: '#000000' },
+        { offset: 0, color: '#ff0000' },
+      ],
+    });
+
+    expect(css.backgroundImage).toBe('linear-gradient(90deg, #ff0000 0%, #000000 100%)');
+  });
+
+  it('tiles dots at the pattern size', () => {
+    const css = withFill({ type: 'pattern', pattern: 'dots', color: '#000000', size: 20, angle: 0 });
+
+    expect(css.backgroundSize).toBe('20px 20px');
+    expect(css.backgroundImage).toBe('radial-gradient(circle, #000000 4px, transparent 4.5px)');
+  });
+
+  it('draws one row of halftone dots per step across the canvas diagonal', () => {
+    const css = withFill({ type: 'pattern', pattern: 'halftone', color: '#123456', size: 10, angle: 45 });
+    const svg = decodeSvg(css.backgroundImage);
+
+    // The diagonal of a 30×40 canvas is 50, so five rows of 10.
+    expect(svg.match(/<pattern /g)).toHaveLength(5);
+    expect(svg).toContain('fill="#123456"');
+    expect(svg).toContain('rotate(-45)');
+    expect(css.backgroundSize).toBe('100% 100%');
+  });
+
+  it('builds the same halftone for the same settings', () => {
+    const fill: BackgroundFill = { type: 'pattern', pattern: 'halftone', color: '#000000', size: 4, angle: 0 };
+
+    expect(withFill(fill)).toEqual(withFill({ ...fill }));
+    expect(withFill(fill).backgroundImage).not.toBe(withFill({ ...fill, size: 5 }).backgroundImage);
+  });
+
+  it('covers the canvas with an image fill around its focal point', () => {
+    const fill: BackgroundFill = { type: 'image', assetId: 'asset-1', focalPoint: { x: 0.25, y: 0.5 } };
+
+    expect(withFill(fill, { 'asset-1': 'blob:poster/1' })).toMatchObject({
+      backgroundImage: 'url("blob:poster/1")',
+      backgroundSize: 'cover',
+      backgroundPosition: '25% 50%',
+    });
+    expect(withFill(fill)).toEqual({ backgroundColor: '#ffffff' });
+  });
+});
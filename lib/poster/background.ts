@@ -0,0 +1,134 @@
+import type { CSSProperties } from 'react';
+import type { BackgroundFill, BackgroundPattern, PosterBackground, PosterDocument } from './document';
+import { hexToRgb } from './color';
+import { svgDataUrl } from './frames';
+import { gradientStopsCss } from './text';
+
+// Noise is drawn once on a tile this large and repeated; stitching hides the seams.
+const NOISE_TILE_SIZE = 256;
+
+export const BACKGROUND_PATTERNS: { value: BackgroundPattern; label: string }[] = [
+  { value: 'dots', label: 'Dots' },
+  { value: 'stripes', label: 'Stripes' },
+  { value: 'halftone', label: 'Halftone' },
+  { value: 'noise', label: 'Noise' },
+];
+
+const percent = (value: number) => `${value * 100}%`;
+
+// Dots growing from nothing to touching along the pattern angle, across the whole canvas. Each
+// row of equal dots is its own SVG pattern, so the image stays small however many dots there are.
+function halftoneImage(color: string, size: number, angle: number, canvas: PosterDocument['canvas']) {
+  const { width, height } = canvas;
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const rows = Math.ceil(diagonal / size);
+  const patterns: string[] = [];
+  const bands: string[] = [];
+  for (let row = 0; row < rows; row += 1) {
+    const radius = (((row + 0.5) / rows) * size) / Math.SQRT2;
+    const x = row * size - diagonal / 2;
+    patterns.push(
+      `<pattern id="r${row}" x="${x}" y="${-diagonal / 2}" width="${size}" height="${size}" ` +
+        `patternUnits="userSpaceOnUse"><circle cx="${size / 2}" cy="${size / 2}" r="${radius}"/></pattern>`
+    );
+    bands.push(`<rect x="${x}" y="${-diagonal / 2}" width="${size}" height="${diagonal}" fill="url(#r${row})"/>`);
+  }
+  // Rows run across the gradient direction, which follows the CSS convention of 0 pointing up.
+  return svgDataUrl(
+    width,
+    height,
+    `<defs>${patterns.join('')}</defs><g fill="${color}" ` +
+      `transform="translate(${width / 2} ${height / 2}) rotate(${angle - 90})">${bands.join('')}</g>`
+  );
+}
+
+function noiseImage(color: string, size: number) {
+  const [r, g, b] = hexToRgb(color).map((channel) => channel / 255);
+  // Takes the color everywhere and the alpha from the noise, stretched so the grain has contrast.
+  const matrix = `0 0 0 0 ${r} 0 0 0 0 ${g} 0 0 0 0 ${b} 2.5 0 0 0 -0.9`;
+  return svgDataUrl(
+    NOISE_TILE_SIZE,
+    NOISE_TILE_SIZE,
+    `<filter id="n" color-interpolation-filters="sRGB">` +
+      `<feTurbulence type="fractalNoise" baseFrequency="${1 / size}" numOctaves="2" stitchTiles="stitch"/>` +
+      `<feColorMatrix values="${matrix}"/></filter>` +
+      `<rect width="100%" height="100%" filter="url(#n)"/>`
+  );
+}
+
+function patternCss(
+  fill: Extract<BackgroundFill, { type: 'pattern' }>,
+  canvas: PosterDocument['canvas']
+): CSSProperties {
+  const { color, size, angle } = fill;
+  switch (fill.pattern) {
+    case 'dots':
+      return {
+        backgroundImage: `radial-gradient(circle, ${color} ${size / 5}px, transparent ${size / 5 + 0.5}px)`,
+        backgroundSize: `${size}px ${size}px`,
+      };
+    case 'stripes':
+      return {
+        backgroundImage: `repeating-linear-gradient(${angle}deg, ${color} 0 ${size / 2}px, transparent ${
+          size / 2
+        }px ${size}px)`,
+      };
+    case 'halftone':
+      return { backgroundImage: halftoneImage(color, size, angle, canvas), backgroundSize: '100% 100%' };
+    case 'noise':
+      return {
+        backgroundImage: noiseImage(color, size),
+        backgroundSize: `${NOISE_TILE_SIZE}px ${NOISE_TILE_SIZE}px`,
+      };
+  }
+}
+
+function backgroundFillCss(
+  fill: BackgroundFill | null,
+  canvas: PosterDocument['canvas'],
+  assetUrls: Record<string, string>
+): CSSProperties {
+  switch (fill?.type) {
+    case 'linear':
+      return { backgroundImage: `linear-gradient(${fill.angle}deg, ${gradientStopsCss(fill.stops)})` };
+    case 'radial':
+      return {
+        backgroundImage: `radial-gradient(at ${percent(fill.center.x)} ${percent(fill.center.y)}, ${gradientStopsCss(
+          fill.stops
+        )})`,
+      };
+    case 'conic':
+      return {
+        backgroundImage: `conic-gradient(from ${fill.angle}deg at ${percent(fill.center.x)} ${percent(
+          fill.center.y
+        )}, ${gradientStopsCss(fill.stops)})`,
+      };
+    case 'pattern':
+      return patternCss(fill, canvas);
+    case 'image': {
+      const url = assetUrls[fill.assetId];
+      if (!url) return {};
+      return {
+        backgroundImage: `url("${url}")`,
+        backgroundSize: 'cover',
+        backgroundPosition: `${percent(fill.focalPoint.x)} ${percent(fill.focalPoint.y)}`,
+        backgroundRepeat: 'no-repeat',
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+// The background fills the poster node edge to edge, so it needs no layout of its own. A halftone
+// on a large canvas takes a while to build, so callers should not rebuild this on every render.
+export function backgroundCss(
+  background: PosterBackground,
+  canvas: PosterDocument['canvas'],
+  assetUrls: Record<string, string> = {}
+): CSSProperties {
+  return {
+    backgroundColor: background.color,
+    ...backgroundFillCss(background.fill, canvas, assetUrls),
+  };
+}
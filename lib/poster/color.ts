@@ -0,0 +1,33 @@
+// Colors are stored as six-digit hex strings so they round-trip through <input type="color">.
+
+export function normalizeHex(color: string) {
+  const match = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const hex = match[1].length === 3 ? match[1].replace(/./g, (digit) => digit + digit) : match[1];
+  return `#${hex.toLowerCase()}`;
+}
+
+export function hexToRgb(hex: string): [number, number, number] {
+  const normalized = normalizeHex(hex) ?? '#000000';
+  const value = parseInt(normalized.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
+
+export function hexToRgba(hex: string, opacity = 1) {
+  const [r, g, b] = hexToRgb(hex);
+  return `rgba(${r}, ${g}, ${b}, ${opacity})`;
+}
+
+// Accepts hex or rgb()/rgba() notation and splits it into a hex color and an opacity.
+export function parseCssColor(color: string) {
+  const hex = normalizeHex(color);
+  if (hex) return { color: hex, opacity: 1 };
+
+  const match = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/i.exec(color.trim());
+  if (!match) return null;
+  const [r, g, b] = match.slice(1, 4).map((channel) => Math.min(255, Number(channel)));
+  return {
+    color: `#${[r, g, b].map((channel) => channel.toString(16).padStart(2, '0')).join('')}`,
+    opacity: match[4] === undefined ? 1 : Number(match[4]),
+  };
+}
@@ -0,0 +1,756 @@
+import * as z from 'zod';
+
+export const POSTER_DOCUMENT_VERSION = 18;
+
+// The CSS mix-blend-mode keywords; canvas compositing accepts the same names.
+export const blendModeSchema = z.enum([
+  'normal',
+  'multiply',
+  'screen',
+  'overlay',
+  'darken',
+  'lighten',
+  'color-dodge',
+  'color-burn',
+  'hard-light',
+  'soft-light',
+  'difference',
+  'exclusion',
+  'hue',
+  'saturation',
+  'color',
+  'luminosity',
+]);
+
+const layerBaseSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  x: z.number(),
+  y: z.number(),
+  width: z.number().nonnegative(),
+  height: z.number().nonnegative(),
+  opacity: z.number().min(0).max(1),
+  // How the layer mixes with everything painted below it.
+  blendMode: blendModeSchema,
+  // Degrees clockwise around the centre of the box; x and y stay the unrotated top-left corner.
+  rotation: z.number().min(-180).max(180),
+  // Degrees, applied before the rotation.
+  skewX: z.number().min(-60).max(60),
+  skewY: z.number().min(-60).max(60),
+  // The innermost group the layer belongs to, if any.
+  groupId: z.string().nullable(),
+  // Hidden layers are left out of the canvas and exports; locked ones cannot be picked on the canvas.
+  visible: z.boolean(),
+  locked: z.boolean(),
+});
+
+export const gradientStopSchema = z.object({
+  // 0 to 1 along the gradient line.
+  offset: z.number().min(0).max(1),
+  color: z.string(),
+});
+
+// Paints the glyphs with something other than the style color. An image fill is a knockout:
+// the referenced image shows through the letters.
+export const textFillSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('linear'),
+    // CSS convention: 0 points up, 90 points right.
+    angle: z.number(),
+    stops: z.array(gradientStopSchema).min(2),
+  }),
+  z.object({
+    type: z.literal('radial'),
+    stops: z.array(gradientStopSchema).min(2),
+  }),
+  z.object({
+    type: z.literal('image'),
+    assetId: z.string().min(1),
+  }),
+]);
+
+export const textEffectSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('shadow'),
+    offsetX: z.number(),
+    offsetY: z.number(),
+    blur: z.number().nonnegative(),
+    color: z.string(),
+    opacity: z.number().min(0).max(1),
+  }),
+  z.object({
+    type: z.literal('glow'),
+    blur: z.number().nonnegative(),
+    color: z.string(),
+    opacity: z.number().min(0).max(1),
+  }),
+  // Drawn outside the glyphs, so a thick outline does not eat into thin strokes.
+  z.object({
+    type: z.literal('outline'),
+    width: z.number().positive(),
+    color: z.string(),
+  }),
+]);
+
+export const textStyleSchema = z.object({
+  fontFamily: z.string(),
+  fontSize: z.number().positive(),
+  fontWeight: z.number().int().min(100).max(900),
+  italic: z.boolean(),
+  // In em, so tracking scales with the font size.
+  letterSpacing: z.number(),
+  lineHeight: z.number().positive(),
+  align: z.enum(['left', 'center', 'right', 'justify']),
+  transform: z.enum(['none', 'uppercase', 'lowercase', 'capitalize']),
+  color: z.string(),
+  fill: textFillSchema.nullable(),
+  // Applied in order, so later shadows and glows also fall on earlier ones.
+  effects: z.array(textEffectSchema),
+  // `vertical` sets CJK-style columns running top to bottom, right to left.
+  direction: z.enum(['ltr', 'rtl', 'vertical']),
+});
+
+// How the font size relates to the layer box: `fixed` keeps style.fontSize and lets text
+// overflow, `shrink` scales it down until the text fits, `grow` picks the largest size that fits.
+export const textFitSchema = z.enum(['fixed', 'shrink', 'grow']);
+
+// A run of text with inline overrides; unset keys inherit the layer's style.
+export const textSpanSchema = z.object({
+  text: z.string(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  color: z.string().optional(),
+  // Font size relative to the layer's, so auto-fit scales the whole layer uniformly.
+  scale: z.number().positive().optional(),
+});
+
+export const textLayerSchema = layerBaseSchema.extend({
+  type: z.literal('text'),
+  spans: z.array(textSpanSchema).min(1),
+  fit: textFitSchema,
+  style: textStyleSchema,
+});
+
+// Fractions (0 to 1) of the source image, so crops survive replacing the asset at another resolution.
+export const imageCropSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().positive().max(1),
+  height: z.number().positive().max(1),
+});
+
+// Same meaning as CSS object-fit, applied to the cropped region of the image.
+export const imageFitSchema = z.enum(['cover', 'contain', 'fill', 'none']);
+
+// Stored as parameters and re-applied to the source pixels on every render, so the original
+// image is never modified. Zero (or null) means "no change" for every field.
+export const imageAdjustmentsSchema = z.object({
+  // -100 to 100.
+  brightness: z.number().min(-100).max(100),
+  contrast: z.number().min(-100).max(100),
+  saturation: z.number().min(-100).max(100),
+  // Degrees around the color wheel.
+  hue: z.number().min(-180).max(180),
+  // Photographic stops: +1 doubles the light.
+  exposure: z.number().min(-3).max(3),
+  // Radius as a fraction of the image's shorter side, so it looks the same at any resolution.
+  blur: z.number().min(0).max(0.1),
+  grayscale: z.number().min(0).max(1),
+  sepia: z.number().min(0).max(1),
+  // Maps dark to `shadows` and light to `highlights`.
+  duotone: z.object({ shadows: z.string(), highlights: z.string() }).nullable(),
+  vignette: z.number().min(0).max(1),
+});
+
+// The silhouette an image is cut to, stretched to the layer box. Custom shapes come from an
+// uploaded SVG and keep its path data, so they need no asset.
+export const frameShapeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('rectangle'),
+    cornerRadius: z.number().nonnegative(),
+  }),
+  z.object({ type: z.literal('ellipse') }),
+  z.object({ type: z.literal('arch') }),
+  z.object({
+    type: z.literal('custom'),
+    name: z.string(),
+    path: z.string().min(1),
+    viewBox: z.object({
+      x: z.number(),
+      y: z.number(),
+      width: z.number().positive(),
+      height: z.number().positive(),
+    }),
+  }),
+]);
+
+export const imageFrameSchema = z.object({
+  shape: frameShapeSchema,
+  // Width in px of the soft edge, fading inwards from the shape outline.
+  feather: z.number().nonnegative(),
+  border: z
+    .object({
+      width: z.number().positive(),
+      color: z.string(),
+    })
+    .nullable(),
+});
+
+// A point given in fractions of a box, 0 to 1 on each axis.
+const fractionPointSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+});
+
+// Binary image data lives in the asset store; layers only reference it by id.
+export const imageLayerSchema = layerBaseSchema.extend({
+  type: z.literal('image'),
+  assetId: z.string().min(1),
+  // Pixel size of the source image, needed to lay out crops without decoding it.
+  naturalWidth: z.number().positive(),
+  naturalHeight: z.number().positive(),
+  crop: imageCropSchema,
+  fit: imageFitSchema,
+  // Which point of the crop stays in view when `cover` or `none` cuts it off, like object-position.
+  focalPoint: fractionPointSchema,
+  flipX: z.boolean(),
+  flipY: z.boolean(),
+  adjustments: imageAdjustmentsSchema,
+  frame: imageFrameSchema,
+});
+
+export const qrLayerSchema = layerBaseSchema.extend({
+  type: z.literal('qr'),
+  value: z.string(),
+});
+
+export const shapeKindSchema = z.enum(['rectangle', 'ellipse', 'line', 'arrow', 'polygon', 'star']);
+
+export const shapeStrokeSchema = z.object({
+  width: z.number().positive(),
+  color: z.string(),
+  dash: z.enum(['solid', 'dashed', 'dotted']),
+});
+
+// Shapes stretch to their box. Lines and arrows run across the middle of it and only use the stroke.
+export const shapeLayerSchema = layerBaseSchema.extend({
+  type: z.literal('shape'),
+  shape: shapeKindSchema,
+  fill: z.string().nullable(),
+  stroke: shapeStrokeSchema.nullable(),
+  // Rectangles only.
+  cornerRadius: z.number().nonnegative(),
+  // Corners of a polygon, or tips of a star.
+  points: z.number().int().min(3).max(24),
+  // How far a star's inner corners reach, as a fraction of its outer radius.
+  innerRadius: z.number().min(0.1).max(1),
+});
+
+// An icon from the lucide-react set, drawn as a vector at any size.
+export const iconLayerSchema = layerBaseSchema.extend({
+  type: z.literal('icon'),
+  // The icon's export name in lucide-react, e.g. 'Heart'.
+  icon: z.string().min(1),
+  color: z.string(),
+  strokeWidth: z.number().positive(),
+});
+
+export const layerSchema = z.discriminatedUnion('type', [
+  textLayerSchema,
+  imageLayerSchema,
+  qrLayerSchema,
+  shapeLayerSchema,
+  iconLayerSchema,
+]);
+
+export const backgroundPatternSchema = z.enum(['dots', 'stripes', 'halftone', 'noise']);
+
+// Painted over the background color and under every layer.
+export const backgroundFillSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('linear'),
+    angle: z.number(),
+    stops: z.array(gradientStopSchema).min(2),
+  }),
+  z.object({
+    type: z.literal('radial'),
+    center: fractionPointSchema,
+    stops: z.array(gradientStopSchema).min(2),
+  }),
+  z.object({
+    type: z.literal('conic'),
+    angle: z.number(),
+    center: fractionPointSchema,
+    stops: z.array(gradientStopSchema).min(2),
+  }),
+  z.object({
+    type: z.literal('pattern'),
+    pattern: backgroundPatternSchema,
+    color: z.string(),
+    // Distance between repeats in pixels; the grain size for noise.
+    size: z.number().positive(),
+    // Rotation of stripes and halftone rows.
+    angle: z.number(),
+  }),
+  z.object({
+    type: z.literal('image'),
+    assetId: z.string().min(1),
+    // The image always covers the canvas; this point stays in view.
+    focalPoint: fractionPointSchema,
+  }),
+]);
+
+export const posterBackgroundSchema = z.object({
+  color: z.string(),
+  fill: backgroundFillSchema.nullable(),
+});
+
+// A font uploaded by the user, registered under `family` from the referenced font asset.
+export const posterFontSchema = z.object({
+  family: z.string().min(1),
+  assetId: z.string().min(1),
+});
+
+// Groups only record membership: layers keep their own place in the stacking order, and a group
+// nested in another names it as its parent.
+export const layerGroupSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  parentId: z.string().nullable(),
+});
+
+// An image the user uploaded to place as stickers; placed stickers are image layers.
+export const posterStickerSchema = z.object({
+  name: z.string(),
+  assetId: z.string().min(1),
+});
+
+export const rulerUnitSchema = z.enum(['px', 'mm', 'in']);
+
+// A guide line dragged out of a ruler: vertical at x = `position` on the x axis, horizontal on y.
+export const layoutGuideSchema = z.object({
+  axis: z.enum(['x', 'y']),
+  position: z.number(),
+});
+
+// Horizontal lines every `spacing` pixels, starting `offset` pixels from the top.
+export const baselineGridSchema = z.object({
+  enabled: z.boolean(),
+  spacing: z.number().min(2),
+  offset: z.number().min(0),
+});
+
+// `count` equal columns between the side margins, `gutter` pixels apart. The margins also apply
+// while the columns are hidden.
+export const columnGridSchema = z.object({
+  enabled: z.boolean(),
+  count: z.number().int().min(1).max(24),
+  gutter: z.number().min(0),
+  margin: z.number().min(0),
+});
+
+// Editing aids saved with the poster. Lengths are canvas pixels; `unit` is only how rulers and
+// fields show them.
+export const posterLayoutSchema = z.object({
+  unit: rulerUnitSchema,
+  guides: z.array(layoutGuideSchema),
+  baseline: baselineGridSchema,
+  columns: columnGridSchema,
+});
+
+export const posterDocumentSchema = z.object({
+  version: z.literal(POSTER_DOCUMENT_VERSION),
+  canvas: z.object({
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }),
+  background: posterBackgroundSchema,
+  fonts: z.array(posterFontSchema),
+  stickers: z.array(posterStickerSchema),
+  // Layers are stored bottom-to-top: the last entry is painted last.
+  layers: z.array(layerSchema),
+  groups: z.array(layerGroupSchema),
+  layout: posterLayoutSchema,
+});
+
+export type GradientStop = z.infer<typeof gradientStopSchema>;
+export type BackgroundPattern = z.infer<typeof backgroundPatternSchema>;
+export type BackgroundFill = z.infer<typeof backgroundFillSchema>;
+export type PosterBackground = z.infer<typeof posterBackgroundSchema>;
+export type TextFill = z.infer<typeof textFillSchema>;
+export type TextEffect = z.infer<typeof textEffectSchema>;
+export type TextEffectType = TextEffect['type'];
+export type TextStyle = z.infer<typeof textStyleSchema>;
+export type TextSpan = z.infer<typeof textSpanSchema>;
+export type TextFit = z.infer<typeof textFitSchema>;
+export type TextLayer = z.infer<typeof textLayerSchema>;
+export type ImageCrop = z.infer<typeof imageCropSchema>;
+export type ImageFit = z.infer<typeof imageFitSchema>;
+export type ImageAdjustments = z.infer<typeof imageAdjustmentsSchema>;
+export type FrameShape = z.infer<typeof frameShapeSchema>;
+export type ImageFrame = z.infer<typeof imageFrameSchema>;
+export type ImageLayer = z.infer<typeof imageLayerSchema>;
+export type QrLayer = z.infer<typeof qrLayerSchema>;
+export type ShapeKind = z.infer<typeof shapeKindSchema>;
+export type ShapeStroke = z.infer<typeof shapeStrokeSchema>;
+export type ShapeLayer = z.infer<typeof shapeLayerSchema>;
+export type IconLayer = z.infer<typeof iconLayerSchema>;
+export type PosterFont = z.infer<typeof posterFontSchema>;
+export type PosterSticker = z.infer<typeof posterStickerSchema>;
+export type LayerGroup = z.infer<typeof layerGroupSchema>;
+export type RulerUnit = z.infer<typeof rulerUnitSchema>;
+export type LayoutGuide = z.infer<typeof layoutGuideSchema>;
+export type BaselineGrid = z.infer<typeof baselineGridSchema>;
+export type ColumnGrid = z.infer<typeof columnGridSchema>;
+export type PosterLayout = z.infer<typeof posterLayoutSchema>;
+export type BlendMode = z.infer<typeof blendModeSchema>;
+export type PosterLayer = z.infer<typeof layerSchema>;
+export type PosterLayerType = PosterLayer['type'];
+export type PosterDocument = z.infer<typeof posterDocumentSchema>;
+
+export function parsePosterDocument(input: unknown) {
+  return posterDocumentSchema.safeParse(input);
+}
+
+export function createLayerId(type: PosterLayerType) {
+  return `${type}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function createGroupId() {
+  return `group-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontFamily: 'Inter',
+  fontSize: 30,
+  fontWeight: 400,
+  italic: false,
+  letterSpacing: 0,
+  lineHeight: 1.2,
+  align: 'left',
+  transform: 'none',
+  color: '#ffffff',
+  fill: null,
+  effects: [{ type: 'shadow', offsetX: 1, offsetY: 1, blur: 2, color: '#000000', opacity: 0.5 }],
+  direction: 'ltr',
+};
+
+export const DEFAULT_POSTER_LAYOUT: PosterLayout = {
+  unit: 'px',
+  guides: [],
+  baseline: { enabled: false, spacing: 12, offset: 0 },
+  columns: { enabled: false, count: 3, gutter: 16, margin: 20 },
+};
+
+export function createDefaultDocument(): PosterDocument {
+  return {
+    version: POSTER_DOCUMENT_VERSION,
+    canvas: { width: 344, height: 444 },
+    background: { color: '#ffffff', fill: null },
+    fonts: [],
+    stickers: [],
+    layers: [
+      {
+        id: 'title',
+        name: 'Title',
+        type: 'text',
+        spans: [{ text: '00' }],
+        fit: 'fixed',
+        x: 20,
+        y: 20,
+        width: 304,
+        height: 60,
+        opacity: 1,
+        blendMode: 'normal',
+        rotation: 0,
+        skewX: 0,
+        skewY: 0,
+        groupId: null,
+        visible: true,
+        locked: false,
+        style: {
+          ...DEFAULT_TEXT_STYLE,
+          fontSize: 60,
+          fontWeight: 700,
+          lineHeight: 1,
+          effects: [{ type: 'shadow', offsetX: 2, offsetY: 2, blur: 4, color: '#000000', opacity: 0.5 }],
+        },
+      },
+      {
+        id: 'subtitle',
+        name: 'Subtitle',
+        type: 'text',
+        spans: [{ text: '新选项' }],
+        fit: 'fixed',
+        x: 20,
+        y: 80,
+        width: 304,
+        height: 36,
+        opacity: 1,
+        blendMode: 'normal',
+        rotation: 0,
+        skewX: 0,
+        skewY: 0,
+        groupId: null,
+        visible: true,
+        locked: false,
+        style: {
+          ...DEFAULT_TEXT_STYLE,
+          fontSize: 30,
+          fontWeight: 600,
+        },
+      },
+      {
+        id: 'qr',
+        name: 'QR code',
+        type: 'qr',
+        value: 'https://sharegpt-one.vercel.app/',
+        x: 20,
+        y: 140,
+        width: 116,
+        height: 116,
+        opacity: 1,
+        blendMode: 'normal',
+        rotation: 0,
+        skewX: 0,
+        skewY: 0,
+        groupId: null,
+        visible: true,
+        locked: false,
+      },
+    ],
+    groups: [],
+    layout: DEFAULT_POSTER_LAYOUT,
+  };
+}
+
+export const TEXT_LAYER_PRESETS = {
+  headline: { name: 'Headline', text: 'HEADLINE', style: { fontSize: 60, fontWeight: 700, lineHeight: 1 } },
+  coverLine: { name: 'Cover line', text: 'Cover line', style: { fontSize: 22, fontWeight: 600, lineHeight: 1.2 } },
+  kicker: {
+    name: 'Kicker',
+    text: 'Exclusive',
+    style: { fontSize: 14, fontWeight: 700, lineHeight: 1.2, letterSpacing: 0.12, transform: 'uppercase' },
+  },
+  issueNumber: { name: 'Issue number', text: 'No. 01', style: { fontSize: 16, fontWeight: 600, lineHeight: 1.2 } },
+  price: { name: 'Price', text: '$9.99', style: { fontSize: 16, fontWeight: 700, lineHeight: 1.2 } },
+  byline: { name: 'Byline', text: 'By Jane Doe', style: { fontSize: 14, fontWeight: 400, lineHeight: 1.4 } },
+  verticalTitle: {
+    name: 'Vertical title',
+    text: '新选项',
+    style: { fontSize: 48, fontWeight: 700, lineHeight: 1.1, direction: 'vertical' },
+  },
+} as const;
+
+export type TextLayerPreset = keyof typeof TEXT_LAYER_PRESETS;
+
+export function createTextLayer(preset: TextLayerPreset, canvas: PosterDocument['canvas']): TextLayer {
+  const { name, text, style: presetStyle } = TEXT_LAYER_PRESETS[preset];
+  const style: TextStyle = { ...DEFAULT_TEXT_STYLE, ...presetStyle };
+  const lineSize = Math.ceil(style.fontSize * style.lineHeight);
+  // Vertical text gets a single full-height column against the right edge.
+  const box =
+    style.direction === 'vertical'
+      ? {
+          x: Math.max(0, canvas.width - 20 - lineSize),
+          y: 20,
+          width: lineSize,
+          height: Math.max(0, canvas.height - 40),
+        }
+      : {
+          x: 20,
+          y: Math.max(0, Math.round((canvas.height - lineSize) / 2)),
+          width: Math.max(0, canvas.width - 40),
+          height: lineSize,
+        };
+
+  return {
+    id: createLayerId('text'),
+    name,
+    type: 'text',
+    spans: [{ text }],
+    fit: 'fixed',
+    ...box,
+    opacity: 1,
+    blendMode: 'normal',
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    groupId: null,
+    visible: true,
+    locked: false,
+    style,
+  };
+}
+
+const SHAPE_NAMES: Record<ShapeKind, string> = {
+  rectangle: 'Rectangle',
+  ellipse: 'Ellipse',
+  line: 'Line',
+  arrow: 'Arrow',
+  polygon: 'Polygon',
+  star: 'Star',
+};
+
+// A new shape in the middle of the canvas: lines as a rule across it, the rest as a colored block.
+export function createShapeLayer(shape: ShapeKind, canvas: PosterDocument['canvas']): ShapeLayer {
+  const linear = shape === 'line' || shape === 'arrow';
+  const width = Math.round(canvas.width / (linear ? 2 : 3));
+  const height = linear ? 24 : shape === 'rectangle' ? Math.round(width / 2) : width;
+
+  return {
+    id: createLayerId('shape'),
+    name: SHAPE_NAMES[shape],
+    type: 'shape',
+    x: Math.max(0, Math.round((canvas.width - width) / 2)),
+    y: Math.max(0, Math.round((canvas.height - height) / 2)),
+    width,
+    height,
+    opacity: 1,
+    blendMode: 'normal',
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    groupId: null,
+    visible: true,
+    locked: false,
+    shape,
+    fill: linear ? null : '#e11d48',
+    stroke: linear ? { width: 4, color: '#000000', dash: 'solid' } : null,
+    cornerRadius: 0,
+    points: shape === 'star' ? 5 : 6,
+    innerRadius: 0.5,
+  };
+}
+
+export function createIconLayer(icon: string, canvas: PosterDocument['canvas']): IconLayer {
+  const size = Math.round(Math.min(canvas.width, canvas.height) / 4);
+  return {
+    id: createLayerId('icon'),
+    name: icon,
+    type: 'icon',
+    x: Math.round((canvas.width - size) / 2),
+    y: Math.round((canvas.height - size) / 2),
+    width: size,
+    height: size,
+    opacity: 1,
+    blendMode: 'normal',
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    groupId: null,
+    visible: true,
+    locked: false,
+    icon,
+    color: '#000000',
+    strokeWidth: 2,
+  };
+}
+
+// A sticker is placed as an image layer a third of the canvas wide, showing the whole image.
+export function createStickerLayer(
+  sticker: PosterSticker,
+  naturalWidth: number,
+  naturalHeight: number,
+  canvas: PosterDocument['canvas']
+): ImageLayer {
+  const layer = createImageLayer({ assetId: sticker.assetId, name: sticker.name, naturalWidth, naturalHeight }, canvas);
+  const { width, height } = fitImageToCanvas(
+    { width: canvas.width / 3, height: canvas.height / 3 },
+    naturalWidth,
+    naturalHeight
+  );
+  return {
+    ...layer,
+    x: Math.round((canvas.width - width) / 2),
+    y: Math.round((canvas.height - height) / 2),
+    width: Math.round(width),
+    height: Math.round(height),
+    fit: 'contain',
+  };
+}
+
+export function collectAssetIds(document: PosterDocument) {
+  const ids = new Set<string>();
+  document.fonts.forEach((font) => ids.add(font.assetId));
+  document.stickers.forEach((sticker) => ids.add(sticker.assetId));
+  document.layers.forEach((layer) => {
+    if (layer.type === 'image') ids.add(layer.assetId);
+    if (layer.type === 'text' && layer.style.fill?.type === 'image') ids.add(layer.style.fill.assetId);
+  });
+  if (document.background.fill?.type === 'image') ids.add(document.background.fill.assetId);
+  return Array.from(ids);
+}
+
+export function findLayer(document: PosterDocument, id: string) {
+  return document.layers.find((layer) => layer.id === id);
+}
+
+export const FULL_IMAGE_CROP: ImageCrop = { x: 0, y: 0, width: 1, height: 1 };
+
+export const NEUTRAL_IMAGE_ADJUSTMENTS: ImageAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  hue: 0,
+  exposure: 0,
+  blur: 0,
+  grayscale: 0,
+  sepia: 0,
+  duotone: null,
+  vignette: 0,
+};
+
+export const PLAIN_IMAGE_FRAME: ImageFrame = {
+  shape: { type: 'rectangle', cornerRadius: 0 },
+  feather: 0,
+  border: null,
+};
+
+export function createImageLayer(
+  source: { assetId: string; name: string; naturalWidth: number; naturalHeight: number },
+  canvas: PosterDocument['canvas'],
+  id = createLayerId('image')
+): ImageLayer {
+  return {
+    id,
+    type: 'image',
+    ...source,
+    x: 0,
+    y: 0,
+    ...fitImageToCanvas(canvas, source.naturalWidth, source.naturalHeight),
+    crop: FULL_IMAGE_CROP,
+    fit: 'cover',
+    focalPoint: { x: 0.5, y: 0.5 },
+    flipX: false,
+    flipY: false,
+    opacity: 1,
+    blendMode: 'normal',
+    rotation: 0,
+    skewX: 0,
+    skewY: 0,
+    groupId: null,
+    visible: true,
+    locked: false,
+    adjustments: NEUTRAL_IMAGE_ADJUSTMENTS,
+    frame: PLAIN_IMAGE_FRAME,
+  };
+}
+
+// Fits an image of the given natural size inside the canvas, keeping its aspect ratio.
+export function fitImageToCanvas(
+  canvas: PosterDocument['canvas'],
+  naturalWidth: number,
+  naturalHeight: number
+) {
+  const aspectRatio = naturalWidth / naturalHeight;
+  let width = canvas.width;
+  let height = width / aspectRatio;
+
+  if (height > canvas.height) {
+    height = canvas.height;
+    width = height * aspectRatio;
+  }
+
+  return { width, height };
+}
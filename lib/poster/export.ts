@@ -0,0 +1,165 @@
+import { getFontEmbedCSS, toCanvas, toSvg } from 'html-to-image';
+import type { Options } from 'html-to-image/lib/types';
+import type { PosterDocument, PosterLayer, ShapeLayer } from './document';
+import { shapeLayerSvg } from './shapes';
+
+const THUMBNAIL_SIZE = 320;
+// PDFs are printed, so their pixels are rendered denser than the screen's.
+const PDF_PIXEL_RATIO = 2;
+
+// Selection outlines, handles and guides are marked with `data-editor-chrome`
+// so they never end up in an exported image.
+export const EDITOR_CHROME_ATTRIBUTE = 'data-editor-chrome';
+
+// Set on the element of every layer so exports can rasterize layers one at a time.
+export const LAYER_ID_ATTRIBUTE = 'data-layer-id';
+
+export interface PosterRenderOptions {
+  // Extra @font-face rules for fonts that are not declared in any stylesheet.
+  customFontCss?: string;
+}
+
+const excludeEditorChrome = (node: HTMLElement) =>
+  !(node instanceof Element && node.hasAttribute(EDITOR_CHROME_ATTRIBUTE));
+
+async function renderOptions(node: HTMLElement, { customFontCss = '' }: PosterRenderOptions): Promise<Options> {
+  const options: Options = { cacheBust: true, filter: excludeEditorChrome };
+  // Passing fontEmbedCSS disables html-to-image's own font discovery, so include it explicitly.
+  const stylesheetFontCss = await getFontEmbedCSS(node, options);
+  return { ...options, fontEmbedCSS: `${stylesheetFontCss}\n${customFontCss}` };
+}
+
+// A stretch of the stacking order exported in one piece: the background and HTML layers, rendered
+// by html-to-image, or a shape layer written out as vector paths.
+type ExportPart = { type: 'html'; background: boolean; layers: PosterLayer[] } | { type: 'shape'; layer: ShapeLayer };
+type HtmlExportPart = Extract<ExportPart, { type: 'html' }>;
+
+const wholePoster = (poster: PosterDocument): HtmlExportPart => ({
+  type: 'html',
+  background: true,
+  layers: poster.layers.filter((layer) => layer.visible),
+});
+
+// Splits the poster so vector formats can keep shapes as vectors. A blend mode mixes a layer with
+// everything below it, which only works while they are rendered together, so everything up to the
+// last blended layer stays in the first part.
+function vectorExportParts(poster: PosterDocument): ExportPart[] {
+  const { layers } = wholePoster(poster);
+  const lastBlended = layers.map((layer) => layer.blendMode !== 'normal').lastIndexOf(true);
+  const parts: ExportPart[] = [{ type: 'html', background: true, layers: layers.slice(0, lastBlended + 1) }];
+  layers.slice(lastBlended + 1).forEach((layer) => {
+    const last = parts[parts.length - 1];
+    if (layer.type === 'shape') parts.push({ type: 'shape', layer });
+    else if (last.type === 'html') last.layers.push(layer);
+    else parts.push({ type: 'html', background: false, layers: [layer] });
+  });
+  return parts;
+}
+
+// Filters the poster down to the layers in `keepIds`, where null stands for everything that is not
+// a layer: the background.
+const onlyLayers = (root: HTMLElement, keepIds: (string | null)[]) => (node: HTMLElement) =>
+  excludeEditorChrome(node) &&
+  (node.parentElement !== root ||
+    keepIds.includes(node instanceof Element ? node.getAttribute(LAYER_ID_ATTRIBUTE) : null));
+
+const partIds = (part: HtmlExportPart) => [...(part.background ? [null] : []), ...part.layers.map((layer) => layer.id)];
+
+const svgMarkup = (width: number, height: number, body: string) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+  `viewBox="0 0 ${width} ${height}">${body}</svg>`;
+
+// Browsers disagree on mix-blend-mode inside the SVG image html-to-image rasterizes, so blended
+// posters are composited on a canvas instead: the background first, then each layer rendered on
+// its own with the opacity baked in and drawn with the matching composite operation. Canvas
+// blend modes use the same formulas as CSS, so the result matches the editor.
+async function renderPosterCanvas(node: HTMLElement, part: HtmlExportPart, options: Options) {
+  const { layers } = part;
+  if (layers.every((layer) => layer.blendMode === 'normal')) {
+    return toCanvas(node, { ...options, filter: onlyLayers(node, partIds(part)) });
+  }
+
+  const result = await toCanvas(node, { ...options, filter: onlyLayers(node, part.background ? [null] : []) });
+  const context = result.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  for (const layer of layers) {
+    const layerCanvas = await toCanvas(node, { ...options, filter: onlyLayers(node, [layer.id]) });
+    context.globalCompositeOperation = layer.blendMode === 'normal' ? 'source-over' : layer.blendMode;
+    context.drawImage(layerCanvas, 0, 0);
+  }
+  return result;
+}
+
+export async function renderPosterPng(node: HTMLElement, poster: PosterDocument, options: PosterRenderOptions = {}) {
+  const canvas = await renderPosterCanvas(node, wholePoster(poster), await renderOptions(node, options));
+  return canvas.toDataURL('image/png');
+}
+
+// Shapes are written out as SVG paths; the HTML between them is nested as html-to-image's own SVG.
+export async function renderPosterSvg(node: HTMLElement, poster: PosterDocument, options: PosterRenderOptions = {}) {
+  const svgOptions = await renderOptions(node, options);
+  const body: string[] = [];
+  for (const part of vectorExportParts(poster)) {
+    if (part.type === 'shape') {
+      body.push(shapeLayerSvg(part.layer));
+    } else {
+      const dataUrl = await toSvg(node, { ...svgOptions, filter: onlyLayers(node, partIds(part)) });
+      body.push(decodeURIComponent(dataUrl.slice(dataUrl.indexOf(',') + 1)));
+    }
+  }
+  const { width, height } = poster.canvas;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgMarkup(width, height, body.join('')))}`;
+}
+
+// The page is the canvas size. Shapes are drawn as PDF paths; everything else, text included, is
+// composited into images rendered like the PNG, so it is not selectable and embeds no fonts.
+export async function renderPosterPdf(node: HTMLElement, poster: PosterDocument, options: PosterRenderOptions = {}) {
+  const [{ jsPDF }, { svg2pdf }] = await Promise.all([import('jspdf'), import('svg2pdf.js')]);
+  const { width, height } = poster.canvas;
+  const pdf = new jsPDF({
+    unit: 'px',
+    format: [width, height],
+    orientation: width > height ? 'landscape' : 'portrait',
+    hotfixes: ['px_scaling'],
+  });
+  const canvasOptions = { ...(await renderOptions(node, options)), pixelRatio: PDF_PIXEL_RATIO };
+  for (const part of vectorExportParts(poster)) {
+    if (part.type === 'shape') {
+      const svg = new DOMParser().parseFromString(svgMarkup(width, height, shapeLayerSvg(part.layer)), 'image/svg+xml');
+      await svg2pdf(svg.documentElement, pdf, { x: 0, y: 0, width, height });
+    } else {
+      pdf.addImage(await renderPosterCanvas(node, part, canvasOptions), 'PNG', 0, 0, width, height);
+    }
+  }
+  return pdf.output('datauristring');
+}
+
+export async function renderPosterThumbnail(
+  node: HTMLElement,
+  poster: PosterDocument,
+  options: PosterRenderOptions = {}
+) {
+  const { canvas } = poster;
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(canvas.width, canvas.height));
+  const thumbnail = await renderPosterCanvas(node, wholePoster(poster), {
+    ...(await renderOptions(node, options)),
+    pixelRatio: 1,
+    canvasWidth: Math.round(canvas.width * scale),
+    canvasHeight: Math.round(canvas.height * scale),
+  });
+  return dataUrlToBlob(thumbnail.toDataURL('image/png'));
+}
+
+export async function dataUrlToBlob(dataUrl: string) {
+  const response = await fetch(dataUrl);
+  return response.blob();
+}
+
+export function downloadUrl(url: string, filename: string) {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { NEUTRAL_IMAGE_ADJUSTMENTS, type ImageAdjustments } from './document';
+import { applyAdjustments, isNeutralAdjustments } from './filters';
+
+const FULL_CROP = { x: 0, y: 0, width: 1, height: 1 };
+
+// An opaque image filled with one colour. Only the fields applyAdjustments reads are needed.
+function solidImage(width: number, height: number, [r, g, b]: number[]) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let index = 0; index < data.length; index += 4) {
+    data.set([r, g, b, 255], index);
+  }
+  return { data, width, height } as ImageData;
+}
+
+const pixelAt = (image: ImageData, x: number, y: number) =>
+  Array.from(image.data.slice((y * image.width + x) * 4, (y * image.width + x) * 4 + 4));
+
+const adjusted = (changes: Partial<ImageAdjustments>, image = solidImage(1, 1, [100, 50, 0])) => {
+  applyAdjustments(image, { ...NEUTRAL_IMAGE_ADJUSTMENTS, ...changes }, FULL_CROP);
+  return image;
+};
+
+describe('applyAdjustments', () => {
+  it('leaves pixels alone without adjustments', () => {
+    expect(isNeutralAdjustments(NEUTRAL_IMAGE_ADJUSTMENTS)).toBe(true);
+    expect(isNeutralAdjustments({ ...NEUTRAL_IMAGE_ADJUSTMENTS, hue: 10 })).toBe(false);
+    expect(pixelAt(adjusted({}), 0, 0)).toEqual([100, 50, 0, 255]);
+  });
+
+  it('doubles the light for each stop of exposure', () => {
+    expect(pixelAt(adjusted({ exposure: 1 }), 0, 0)).toEqual([200, 100, 0, 255]);
+  });
+
+  it('turns colours into their luma with grayscale', () => {
+    expect(pixelAt(adjusted({ grayscale: 1 }, solidImage(1, 1, [255, 0, 0])), 0, 0)).toEqual([54, 54, 54, 255]);
+  });
+
+  it('maps dark to the shadow colour and light to the highlight colour with duotone', () => {
+    const duotone = { shadows: '#ff0000', highlights: '#0000ff' };
+
+    expect(pixelAt(adjusted({ duotone }, solidImage(1, 1, [0, 0, 0])), 0, 0)).toEqual([255, 0, 0, 255]);
+    expect(pixelAt(adjusted({ duotone }, solidImage(1, 1, [255, 255, 255])), 0, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('darkens the corners of the crop, not its centre, with a vignette', () => {
+    const image = adjusted({ vignette: 1 }, solidImage(9, 9, [200, 200, 200]));
+
+    expect(pixelAt(image, 4, 4)).toEqual([200, 200, 200, 255]);
+    expect(pixelAt(image, 0, 0)[0]).toBeLessThan(10);
+  });
+
+  it('spreads a bright pixel into its neighbours with blur', () => {
+    const image = solidImage(10, 10, [0, 0, 0]);
+    image.data.set([255, 255, 255], (5 * 10 + 5) * 4);
+    adjusted({ blur: 0.1 }, image);
+
+    expect(pixelAt(image, 5, 5)[0]).toBeLessThan(255);
+    expect(pixelAt(image, 6, 5)[0]).toBeGreaterThan(0);
+    expect(pixelAt(image, 0, 0)[0]).toBe(0);
+    expect(pixelAt(image, 6, 5)[3]).toBe(255);
+  });
+});
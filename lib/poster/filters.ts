@@ -0,0 +1,191 @@
+import type { ImageAdjustments, ImageCrop } from './document';
+import { hexToRgb } from './color';
+
+// Adjusted images are rendered at most this large; posters never show them bigger.
+const MAX_PROCESSED_SIZE = 2048;
+
+// Rec. 709 luma weights, the same ones CSS filters use.
+const LUMA = [0.2126, 0.7152, 0.0722];
+
+// A 3x4 affine color matrix, row-major, with offsets in 0-255 channel units.
+type ColorMatrix = number[];
+
+const IDENTITY: ColorMatrix = [1, 0, 0, 0, 0, 1, 0, 0, 0, 0, 1, 0];
+
+// The matrix that applies `first` and then `second`.
+function compose(first: ColorMatrix, second: ColorMatrix): ColorMatrix {
+  const result: ColorMatrix = [];
+  for (let row = 0; row < 3; row += 1) {
+    for (let column = 0; column < 4; column += 1) {
+      let value = column === 3 ? second[row * 4 + 3] : 0;
+      for (let k = 0; k < 3; k += 1) {
+        value += second[row * 4 + k] * first[k * 4 + column];
+      }
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+function scaleMatrix(factor: number, offset = 0): ColorMatrix {
+  return [factor, 0, 0, offset, 0, factor, 0, offset, 0, 0, factor, offset];
+}
+
+function mix(amount: number, target: ColorMatrix): ColorMatrix {
+  return IDENTITY.map((value, index) => value + (target[index] - value) * amount);
+}
+
+// The same matrices as the CSS saturate() and hue-rotate() filters.
+function saturateMatrix(s: number): ColorMatrix {
+  return [
+    0.213 + 0.787 * s, 0.715 - 0.715 * s, 0.072 - 0.072 * s, 0,
+    0.213 - 0.213 * s, 0.715 + 0.285 * s, 0.072 - 0.072 * s, 0,
+    0.213 - 0.213 * s, 0.715 - 0.715 * s, 0.072 + 0.928 * s, 0,
+  ];
+}
+
+function hueMatrix(degrees: number): ColorMatrix {
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return [
+    0.213 + cos * 0.787 - sin * 0.213, 0.715 - cos * 0.715 - sin * 0.715, 0.072 - cos * 0.072 + sin * 0.928, 0,
+    0.213 - cos * 0.213 + sin * 0.143, 0.715 + cos * 0.285 + sin * 0.14, 0.072 - cos * 0.072 - sin * 0.283, 0,
+    0.213 - cos * 0.213 - sin * 0.787, 0.715 - cos * 0.715 + sin * 0.715, 0.072 + cos * 0.928 + sin * 0.072, 0,
+  ];
+}
+
+const GRAYSCALE: ColorMatrix = [...LUMA, 0, ...LUMA, 0, ...LUMA, 0];
+
+const SEPIA: ColorMatrix = [0.393, 0.769, 0.189, 0, 0.349, 0.686, 0.168, 0, 0.272, 0.534, 0.131, 0];
+
+function colorMatrix(adjustments: ImageAdjustments) {
+  const contrast = 1 + adjustments.contrast / 100;
+  return [
+    scaleMatrix(2 ** adjustments.exposure),
+    scaleMatrix(1 + adjustments.brightness / 100),
+    scaleMatrix(contrast, 128 * (1 - contrast)),
+    saturateMatrix(1 + adjustments.saturation / 100),
+    hueMatrix(adjustments.hue),
+    mix(adjustments.grayscale, GRAYSCALE),
+    mix(adjustments.sepia, SEPIA),
+  ].reduce(compose, IDENTITY);
+}
+
+// One horizontal or vertical box-blur pass over every channel, clamping at the edges.
+function boxBlurPass(
+  source: Uint8ClampedArray,
+  target: Uint8ClampedArray,
+  width: number,
+  height: number,
+  radius: number,
+  horizontal: boolean
+) {
+  const lines = horizontal ? height : width;
+  const length = horizontal ? width : height;
+  const step = horizontal ? 4 : width * 4;
+  const size = radius * 2 + 1;
+
+  for (let line = 0; line < lines; line += 1) {
+    const start = horizontal ? line * width * 4 : line * 4;
+    for (let channel = 0; channel < 4; channel += 1) {
+      const at = (index: number) => source[start + Math.min(length - 1, Math.max(0, index)) * step + channel];
+      let sum = 0;
+      for (let index = -radius; index <= radius; index += 1) sum += at(index);
+      for (let index = 0; index < length; index += 1) {
+        target[start + index * step + channel] = sum / size;
+        sum += at(index + radius + 1) - at(index - radius);
+      }
+    }
+  }
+}
+
+// Three box blurs in each direction approximate a gaussian with sigma ≈ radius.
+function blurPixels(pixels: Uint8ClampedArray, width: number, height: number, radius: number) {
+  const buffer = new Uint8ClampedArray(pixels.length);
+  for (let pass = 0; pass < 3; pass += 1) {
+    boxBlurPass(pixels, buffer, width, height, radius, true);
+    boxBlurPass(buffer, pixels, width, height, radius, false);
+  }
+}
+
+function smoothstep(edge0: number, edge1: number, value: number) {
+  const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+export function isNeutralAdjustments(adjustments: ImageAdjustments) {
+  return Object.values(adjustments).every((value) => value === 0 || value === null);
+}
+
+// Applies the adjustments in place. The vignette is centred on `crop`, the part of the image
+// the layer shows, given in fractions of the image like the layer's crop.
+export function applyAdjustments(image: ImageData, adjustments: ImageAdjustments, crop: ImageCrop) {
+  const { data, width, height } = image;
+
+  const radius = Math.round(adjustments.blur * Math.min(width, height));
+  if (radius > 0) blurPixels(data, width, height, radius);
+
+  const m = colorMatrix(adjustments);
+  const duotone = adjustments.duotone && {
+    shadows: hexToRgb(adjustments.duotone.shadows),
+    highlights: hexToRgb(adjustments.duotone.highlights),
+  };
+  const centerX = (crop.x + crop.width / 2) * width;
+  const centerY = (crop.y + crop.height / 2) * height;
+  const halfWidth = (crop.width / 2) * width;
+  const halfHeight = (crop.height / 2) * height;
+
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const index = (y * width + x) * 4;
+      const r = data[index];
+      const g = data[index + 1];
+      const b = data[index + 2];
+      let outR = m[0] * r + m[1] * g + m[2] * b + m[3];
+      let outG = m[4] * r + m[5] * g + m[6] * b + m[7];
+      let outB = m[8] * r + m[9] * g + m[10] * b + m[11];
+
+      if (duotone) {
+        const luma = Math.min(1, Math.max(0, (LUMA[0] * outR + LUMA[1] * outG + LUMA[2] * outB) / 255));
+        outR = duotone.shadows[0] + (duotone.highlights[0] - duotone.shadows[0]) * luma;
+        outG = duotone.shadows[1] + (duotone.highlights[1] - duotone.shadows[1]) * luma;
+        outB = duotone.shadows[2] + (duotone.highlights[2] - duotone.shadows[2]) * luma;
+      }
+
+      if (adjustments.vignette > 0) {
+        // 0 at the centre of the crop, 1 at its corners.
+        const distance = Math.hypot((x - centerX) / halfWidth, (y - centerY) / halfHeight) / Math.SQRT2;
+        const factor = 1 - adjustments.vignette * smoothstep(0.35, 1, distance);
+        outR *= factor;
+        outG *= factor;
+        outB *= factor;
+      }
+
+      // Uint8ClampedArray clamps and rounds on assignment.
+      data[index] = outR;
+      data[index + 1] = outG;
+      data[index + 2] = outB;
+    }
+  }
+}
+
+// Renders the adjusted image as a PNG; the preview and every export show this same bitmap.
+export function renderAdjustedImage(image: HTMLImageElement, adjustments: ImageAdjustments, crop: ImageCrop) {
+  const scale = Math.min(1, MAX_PROCESSED_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    return Promise.reject(new Error('Canvas is not available'));
+  }
+
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height);
+  applyAdjustments(pixels, adjustments, crop);
+  context.putImageData(pixels, 0, 0);
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), 'image/png');
+  });
+}
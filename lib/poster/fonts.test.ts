@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { fontFamilyCss, fontFamilyFromFileName, quoteFontFamily } from './fonts';
+
+describe('font family CSS', () => {
+  it('uses the stack of a built-in font', () => {
+    expect(fontFamilyCss('Georgia')).toBe('Georgia, "Times New Roman", serif');
+  });
+
+  it('quotes an uploaded family and falls back to sans-serif', () => {
+    expect(fontFamilyCss('My Display')).toBe('"My Display", sans-serif');
+  });
+
+  it('escapes quotes and backslashes in uploaded family names', () => {
+    expect(quoteFontFamily('Say "Hi"')).toBe('"Say \\"Hi\\""');
+    expect(quoteFontFamily('Back\\slash')).toBe('"Back\\\\slash"');
+  });
+
+  it('names uploaded fonts after their file', () => {
+    expect(fontFamilyFromFileName('my-display_font.woff2')).toBe('my display font');
+    expect(fontFamilyFromFileName('.ttf')).toBe('Custom font');
+  });
+});
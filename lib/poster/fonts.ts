@@ -0,0 +1,118 @@
+import type { PosterDocument, PosterFont } from './document';
+import type { PosterAsset } from './assets';
+import { spansToText } from './rich-text';
+
+export interface FontOption {
+  family: string;
+  label: string;
+  // CSS font-family value used when rendering the layer.
+  stack: string;
+}
+
+export const BUILT_IN_FONTS: FontOption[] = [
+  { family: 'Inter', label: 'Inter', stack: 'var(--font-inter), Inter, sans-serif' },
+  { family: 'Helvetica', label: 'Helvetica', stack: '"Helvetica Neue", Helvetica, Arial, sans-serif' },
+  { family: 'Georgia', label: 'Georgia', stack: 'Georgia, "Times New Roman", serif' },
+  { family: 'Didot', label: 'Didot', stack: 'Didot, "Bodoni 72", "Bodoni MT", serif' },
+  { family: 'Impact', label: 'Impact', stack: 'Impact, "Arial Narrow Bold", sans-serif' },
+  { family: 'Courier', label: 'Courier', stack: '"Courier New", Courier, monospace' },
+  { family: 'Songti', label: '宋体 Songti', stack: '"Songti SC", SimSun, "Noto Serif CJK SC", serif' },
+  { family: 'Heiti', label: '黑体 Heiti', stack: '"PingFang SC", "Microsoft YaHei", "Noto Sans CJK SC", sans-serif' },
+];
+
+export const FONT_FILE_TYPES: Record<string, { mimeType: string; format: string }> = {
+  ttf: { mimeType: 'font/ttf', format: 'truetype' },
+  otf: { mimeType: 'font/otf', format: 'opentype' },
+  woff2: { mimeType: 'font/woff2', format: 'woff2' },
+};
+
+export const FONT_FILE_ACCEPT = Object.keys(FONT_FILE_TYPES)
+  .map((extension) => `.${extension}`)
+  .join(',');
+
+// Uploaded fonts are named after their file, so the name may hold anything a CSS string cannot.
+export function quoteFontFamily(family: string) {
+  return `"${family.replace(/["\\]/g, '\\$&').replace(/\n/g, '\\a ')}"`;
+}
+
+export function fontFamilyCss(family: string) {
+  return BUILT_IN_FONTS.find((font) => font.family === family)?.stack ?? `${quoteFontFamily(family)}, sans-serif`;
+}
+
+// FontFaceSet.load() rejects a family list containing var(), so swap each variable for the
+// families it holds on the page, e.g. the hashed name next/font gives Inter.
+function fontLoadFamilies(family: string) {
+  const styles = getComputedStyle(document.body);
+  return fontFamilyCss(family)
+    .replace(/var\((--[\w-]+)\)/g, (_, name: string) => styles.getPropertyValue(name).trim())
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function fontOptions(fonts: PosterFont[]): FontOption[] {
+  return [
+    ...fonts.map((font) => ({ family: font.family, label: font.family, stack: fontFamilyCss(font.family) })),
+    ...BUILT_IN_FONTS,
+  ];
+}
+
+export function fontFileType(fileName: string) {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return FONT_FILE_TYPES[extension] ?? null;
+}
+
+export function fontFamilyFromFileName(fileName: string) {
+  return fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim() || 'Custom font';
+}
+
+function blobToDataUrl(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+function usedCustomFonts(poster: PosterDocument) {
+  const families = new Set(
+    poster.layers.flatMap((layer) =>
+      layer.type === 'text' && spansToText(layer.spans).trim() ? [layer.style.fontFamily] : []
+    )
+  );
+  return poster.fonts.filter((font) => families.has(font.family));
+}
+
+// Waits until every glyph the text layers use is loaded, so a rasterized export
+// never captures a fallback font. A face that fails to load falls back rather than failing the export.
+export async function loadUsedGlyphs(poster: PosterDocument) {
+  await Promise.allSettled(
+    poster.layers.flatMap((layer) => {
+      if (layer.type !== 'text') return [];
+      const { style } = layer;
+      const families = fontLoadFamilies(style.fontFamily);
+      // Bold spans render heavier than the layer weight, so load both faces.
+      const weights = [style.fontWeight, Math.min(900, style.fontWeight + 300)];
+      return weights.map((weight) =>
+        document.fonts.load(`${weight} ${style.fontSize}px ${families}`, spansToText(layer.spans))
+      );
+    })
+  );
+}
+
+// Uploaded fonts are registered through the FontFace API and never appear in a stylesheet,
+// so html-to-image cannot discover them; exports inline them through this CSS instead.
+export async function buildCustomFontCss(poster: PosterDocument, assets: Record<string, PosterAsset>) {
+  const rules = await Promise.all(
+    usedCustomFonts(poster).map(async (font) => {
+      const asset = assets[font.assetId];
+      if (!asset) return '';
+      const format = fontFileType(asset.name)?.format;
+      const source = `url(${await blobToDataUrl(asset.blob)})${format ? ` format('${format}')` : ''}`;
+      return `@font-face { font-family: ${quoteFontFamily(font.family)}; src: ${source}; font-display: block; }`;
+    })
+  );
+  return rules.join('\n');
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageFrame } from './document';
+import { escapeAttribute, frameBorderImage, frameMaskImage } from './frames';
+
+const decodeSvg = (image: string | undefined) =>
+  decodeURIComponent(String(image).replace(/^url\("data:image\/svg\+xml,/, '').replace(/"\)$/, ''));
+
+const frame = (changes: Partial<ImageFrame> = {}): ImageFrame => ({
+  shape: { type: 'rectangle', cornerRadius: 0 },
+  feather: 0,
+  border: null,
+  ...changes,
+});
+
+describe('frameMaskImage', () => {
+  it('needs no mask for a plain rectangle', () => {
+    expect(frameMaskImage(frame(), 100, 50)).toBeUndefined();
+  });
+
+  it('caps the corner radius at half the shorter side', () => {
+    const svg = decodeSvg(frameMaskImage(frame({ shape: { type: 'rectangle', cornerRadius: 80 } }), 100, 50));
+
+    expect(svg).toContain('<rect x="0" y="0" width="100" height="50" rx="25" fill="#fff"/>');
+  });
+
+  it('draws an arch as a half ellipse on top of a rectangle', () => {
+    const svg = decodeSvg(frameMaskImage(frame({ shape: { type: 'arch' } }), 100, 200));
+
+    expect(svg).toContain('<path d="M0 200V50A50 50 0 0 1 100 50V200Z" fill="#fff"/>');
+  });
+
+  it('shrinks and blurs the shape by the feather', () => {
+    const svg = decodeSvg(frameMaskImage(frame({ shape: { type: 'ellipse' }, feather: 10 }), 100, 50));
+
+    expect(svg).toContain('<feGaussianBlur stdDeviation="5"/>');
+    expect(svg).toContain('<ellipse cx="50" cy="25" rx="40" ry="15" fill="#fff"/>');
+  });
+
+  it('stretches a custom shape over the box', () => {
+    const shape = {
+      type: 'custom' as const,
+      name: 'Star',
+      path: 'M0 0L10 10Z',
+      viewBox: { x: 0, y: 0, width: 10, height: 10 },
+    };
+    const svg = decodeSvg(frameMaskImage(frame({ shape }), 100, 50));
+
+    expect(svg).toContain('<svg x="0" y="0" width="100" height="50" preserveAspectRatio="none" viewBox="0 0 10 10">');
+    expect(svg).toContain('d="M0 0L10 10Z"');
+  });
+});
+
+describe('frameBorderImage', () => {
+  it('has no image without a border', () => {
+    expect(frameBorderImage(frame(), 100, 50)).toBeUndefined();
+  });
+
+  it('strokes the outline inset by half the border so it stays inside the box', () => {
+    const svg = decodeSvg(frameBorderImage(frame({ border: { width: 4, color: '#000000' } }), 100, 50));
+
+    expect(svg).toContain('<rect x="2" y="2" width="96" height="46" rx="0" ');
+    expect(svg).toContain('fill="none" stroke="#000000" stroke-width="4"/>');
+  });
+});
+
+describe('escapeAttribute', () => {
+  it('escapes what would end or break an attribute', () => {
+    expect(escapeAttribute('a"b<c&d')).toBe('a&quot;b&lt;c&amp;d');
+  });
+});
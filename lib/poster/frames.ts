@@ -0,0 +1,148 @@
+import type { FrameShape, ImageFrame } from './document';
+
+export const BUILT_IN_FRAME_SHAPES: { label: string; shape: FrameShape }[] = [
+  { label: 'Rectangle', shape: { type: 'rectangle', cornerRadius: 0 } },
+  { label: 'Rounded', shape: { type: 'rectangle', cornerRadius: 24 } },
+  { label: 'Ellipse', shape: { type: 'ellipse' } },
+  { label: 'Arch', shape: { type: 'arch' } },
+];
+
+interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+function shapeElement(shape: FrameShape, box: Box, paint: string) {
+  const { x, y, width, height } = box;
+  switch (shape.type) {
+    case 'rectangle': {
+      const radius = Math.min(shape.cornerRadius, width / 2, height / 2);
+      return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" ${paint}/>`;
+    }
+    case 'ellipse':
+      return `<ellipse cx="${x + width / 2}" cy="${y + height / 2}" rx="${width / 2}" ry="${height / 2}" ${paint}/>`;
+    case 'arch': {
+      // A rectangle whose top is a half ellipse spanning the full width.
+      const rise = Math.min(width / 2, height);
+      const d = `M${x} ${y + height}V${y + rise}A${width / 2} ${rise} 0 0 1 ${x + width} ${y + rise}V${y + height}Z`;
+      return `<path d="${d}" ${paint}/>`;
+    }
+    case 'custom': {
+      const { viewBox } = shape;
+      return (
+        `<svg x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="none" ` +
+        `viewBox="${viewBox.x} ${viewBox.y} ${viewBox.width} ${viewBox.height}">` +
+        // Keep strokes at their on-screen width even though the path is stretched.
+        `<path d="${escapeAttribute(shape.path)}" vector-effect="non-scaling-stroke" ${paint}/></svg>`
+      );
+    }
+  }
+}
+
+export function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+export function svgDataUrl(width: number, height: number, body: string) {
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="0 0 ${width} ${height}">${body}</svg>`;
+  return `url("data:image/svg+xml,${encodeURIComponent(svg)}")`;
+}
+
+function inset(width: number, height: number, amount: number): Box {
+  const x = Math.min(amount, width / 2);
+  const y = Math.min(amount, height / 2);
+  return { x, y, width: width - x * 2, height: height - y * 2 };
+}
+
+// A CSS mask-image value cutting a box of the given size to the frame shape. Masks are plain
+// images, so they survive html-to-image exports where clip-path with SVG references may not.
+export function frameMaskImage(frame: ImageFrame, width: number, height: number) {
+  if (frame.shape.type === 'rectangle' && frame.shape.cornerRadius === 0 && frame.feather === 0) {
+    return undefined;
+  }
+  if (frame.feather === 0) {
+    return svgDataUrl(width, height, shapeElement(frame.shape, { x: 0, y: 0, width, height }, 'fill="#fff"'));
+  }
+  // Shrink the shape so the blurred edge fades out inside the box rather than being cut off.
+  const blur = `<feGaussianBlur stdDeviation="${frame.feather / 2}"/>`;
+  const shape = shapeElement(frame.shape, inset(width, height, frame.feather), 'fill="#fff"');
+  return svgDataUrl(
+    width,
+    height,
+    `<filter id="f" x="-50%" y="-50%" width="200%" height="200%">${blur}</filter><g filter="url(#f)">${shape}</g>`
+  );
+}
+
+// The border as a background image drawn on top of the masked image, following the same outline.
+export function frameBorderImage(frame: ImageFrame, width: number, height: number) {
+  const { border } = frame;
+  if (!border) return undefined;
+  const box = inset(width, height, border.width / 2);
+  const paint = `fill="none" stroke="${escapeAttribute(border.color)}" stroke-width="${border.width}"`;
+  return svgDataUrl(width, height, shapeElement(frame.shape, box, paint));
+}
+
+function pointsToPath(points: string) {
+  const numbers = points.trim().split(/[\s,]+/).map(Number);
+  const pairs: string[] = [];
+  for (let index = 0; index + 1 < numbers.length; index += 2) {
+    pairs.push(`${numbers[index]} ${numbers[index + 1]}`);
+  }
+  return pairs.length > 0 ? `M${pairs.join('L')}Z` : '';
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number) {
+  return `M${cx - rx} ${cy}A${rx} ${ry} 0 1 0 ${cx + rx} ${cy}A${rx} ${ry} 0 1 0 ${cx - rx} ${cy}Z`;
+}
+
+// Reads the filled outline of an uploaded SVG. Paths, polygons and basic shapes are merged into
+// one path; transforms, text and strokes are ignored.
+export function parseSvgFrameShape(source: string, name: string): FrameShape {
+  const svg = new DOMParser().parseFromString(source, 'image/svg+xml').querySelector('svg');
+  if (!svg) {
+    throw new Error(`"${name}" is not an SVG file.`);
+  }
+
+  const number = (element: Element, attribute: string) => Number(element.getAttribute(attribute) ?? 0);
+  const parts = Array.from(svg.querySelectorAll('path, polygon, rect, circle, ellipse')).map((element) => {
+    switch (element.tagName.toLowerCase()) {
+      case 'path':
+        return element.getAttribute('d') ?? '';
+      case 'polygon':
+        return pointsToPath(element.getAttribute('points') ?? '');
+      case 'rect': {
+        const x = number(element, 'x');
+        const y = number(element, 'y');
+        return `M${x} ${y}h${number(element, 'width')}v${number(element, 'height')}h${-number(element, 'width')}Z`;
+      }
+      case 'circle':
+        return ellipsePath(number(element, 'cx'), number(element, 'cy'), number(element, 'r'), number(element, 'r'));
+      default:
+        return ellipsePath(number(element, 'cx'), number(element, 'cy'), number(element, 'rx'), number(element, 'ry'));
+    }
+  });
+  const path = parts.filter(Boolean).join(' ');
+  if (!path) {
+    throw new Error(`"${name}" contains no shapes to use as a frame.`);
+  }
+
+  const [x, y, width, height] = (svg.getAttribute('viewBox') ?? '')
+    .trim()
+    .split(/[\s,]+/)
+    .map(Number);
+  const viewBox =
+    width > 0 && height > 0
+      ? { x, y, width, height }
+      : {
+          x: 0,
+          y: 0,
+          width: parseFloat(svg.getAttribute('width') ?? '') || 100,
+          height: parseFloat(svg.getAttribute('height') ?? '') || 100,
+        };
+
+  return { type: 'custom', name: name.replace(/\.svg$/i, ''), path, viewBox };
+}
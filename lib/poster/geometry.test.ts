@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { dragBounds, layerBounds, layerTransformCss, normalizeRotation, snapRotation, type Bounds } from './geometry';
+
+const box = (changes: { rotation?: number; skewX?: number; skewY?: number } = {}) => ({
+  x: 0,
+  y: 0,
+  width: 100,
+  height: 50,
+  rotation: 0,
+  skewX: 0,
+  skewY: 0,
+  ...changes,
+});
+
+function expectBounds(actual: Bounds, expected: Bounds) {
+  (Object.keys(expected) as (keyof Bounds)[]).forEach((side) => {
+    expect(actual[side]).toBeCloseTo(expected[side]);
+  });
+}
+
+describe('layerBounds', () => {
+  it('is the box itself without a transform', () => {
+    expect(layerBounds(box())).toEqual({ left: 0, top: 0, right: 100, bottom: 50 });
+  });
+
+  it('turns around the centre of the box', () => {
+    expectBounds(layerBounds(box({ rotation: 90 })), { left: 25, top: -25, right: 75, bottom: 75 });
+  });
+
+  it('widens a box skewed along x', () => {
+    expectBounds(layerBounds(box({ skewX: 45 })), { left: -25, top: 0, right: 125, bottom: 50 });
+  });
+});
+
+describe('dragBounds', () => {
+  it('keeps a rotated layer inside the canvas as drawn', () => {
+    expectBounds(dragBounds(box({ rotation: 90 }), { width: 400, height: 300 }), {
+      left: -25,
+      top: 25,
+      right: 325,
+      bottom: 225,
+    });
+  });
+
+  it('lets a layer larger than the canvas move until its edges reach the canvas edges', () => {
+    expectBounds(dragBounds(box(), { width: 80, height: 300 }), { left: -20, top: 0, right: 0, bottom: 250 });
+  });
+});
+
+describe('rotation', () => {
+  it('wraps angles into -180..180', () => {
+    expect(normalizeRotation(190)).toBe(-170);
+    expect(normalizeRotation(-180)).toBe(180);
+    expect(normalizeRotation(360)).toBe(0);
+  });
+
+  it('snaps to the nearest step', () => {
+    expect(snapRotation(22)).toBe(15);
+    expect(snapRotation(23)).toBe(30);
+    expect(snapRotation(-178)).toBe(180);
+  });
+
+  it('writes a CSS transform only for transformed layers', () => {
+    expect(layerTransformCss(box())).toBeUndefined();
+    expect(layerTransformCss(box({ rotation: 30, skewY: 10 }))).toEqual({
+      transform: 'rotate(30deg) skew(0deg, 10deg)',
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import type { CSSProperties } from 'react';
+import type { PosterDocument, PosterLayer } from './document';
+
+type LayerBox = Pick<PosterLayer, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'skewX' | 'skewY'>;
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const ROTATION_SNAP_DEGREES = 15;
+
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// The CSS transform drawing a layer box, around its centre like the default transform-origin.
+export function layerTransformCss(layer: LayerBox): CSSProperties | undefined {
+  if (layer.rotation === 0 && layer.skewX === 0 && layer.skewY === 0) return undefined;
+  return { transform: `rotate(${layer.rotation}deg) skew(${layer.skewX}deg, ${layer.skewY}deg)` };
+}
+
+// The four corners of the box on the canvas, after skew and rotation.
+export function layerCorners(layer: LayerBox): [number, number][] {
+  const cx = layer.x + layer.width / 2;
+  const cy = layer.y + layer.height / 2;
+  const cos = Math.cos(radians(layer.rotation));
+  const sin = Math.sin(radians(layer.rotation));
+  const tanX = Math.tan(radians(layer.skewX));
+  const tanY = Math.tan(radians(layer.skewY));
+  const halfWidth = layer.width / 2;
+  const halfHeight = layer.height / 2;
+
+  return [
+    [-halfWidth, -halfHeight],
+    [halfWidth, -halfHeight],
+    [halfWidth, halfHeight],
+    [-halfWidth, halfHeight],
+  ].map(([x, y]) => {
+    const skewedX = x + y * tanX;
+    const skewedY = y + x * tanY;
+    return [cx + skewedX * cos - skewedY * sin, cy + skewedX * sin + skewedY * cos];
+  });
+}
+
+// The axis-aligned box around the layer as drawn.
+export function layerBounds(layer: LayerBox): Bounds {
+  const corners = layerCorners(layer);
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return { left: Math.min(...xs), top: Math.min(...ys), right: Math.max(...xs), bottom: Math.max(...ys) };
+}
+
+// The axis-aligned box around several layers as drawn.
+export function unionBounds(layers: LayerBox[]): Bounds {
+  const bounds = layers.map(layerBounds);
+  return {
+    left: Math.min(...bounds.map((box) => box.left)),
+    top: Math.min(...bounds.map((box) => box.top)),
+    right: Math.max(...bounds.map((box) => box.right)),
+    bottom: Math.max(...bounds.map((box) => box.bottom)),
+  };
+}
+
+// Limits for the unrotated top-left corner that keep the drawn layer inside the canvas. A layer
+// larger than the canvas may move until its edges reach the canvas edges instead.
+export function dragBounds(layer: LayerBox, canvas: PosterDocument['canvas']): Bounds {
+  const bounds = layerBounds(layer);
+  const offsetLeft = layer.x - bounds.left;
+  const offsetTop = layer.y - bounds.top;
+  const minX = offsetLeft;
+  const maxX = canvas.width - (bounds.right - bounds.left) + offsetLeft;
+  const minY = offsetTop;
+  const maxY = canvas.height - (bounds.bottom - bounds.top) + offsetTop;
+  return {
+    left: Math.min(minX, maxX),
+    right: Math.max(minX, maxX),
+    top: Math.min(minY, maxY),
+    bottom: Math.max(minY, maxY),
+  };
+}
+
+// Keeps an angle in the schema's -180..180 range.
+export function normalizeRotation(degrees: number) {
+  const wrapped = ((((degrees + 180) % 360) + 360) % 360) - 180;
+  return wrapped === -180 ? 180 : wrapped;
+}
+
+export function snapRotation(degrees: number, step = ROTATION_SNAP_DEGREES) {
+  return normalizeRotation(Math.round(degrees / step) * step);
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultDocument, createShapeLayer, type PosterDocument } from './document';
+import { groupLayerIds, groupLayers, pickLayerIds, pruneGroups, selectionUnits, ungroupLayers } from './groups';
+
+const canvas = { width: 200, height: 100 };
+
+function documentWith(ids: string[]): PosterDocument {
+  return {
+    ...createDefaultDocument(),
+    canvas,
+    layers: ids.map((id) => ({ ...createShapeLayer('rectangle', canvas), id, name: id })),
+    groups: [],
+  };
+}
+
+describe('groupLayers', () => {
+  it('puts loose layers into a new group', () => {
+    const document = groupLayers(documentWith(['a', 'b', 'c']), ['a', 'b'], { id: 'g', name: 'Group 1' });
+
+    expect(document.groups).toEqual([{ id: 'g', name: 'Group 1', parentId: null }]);
+    expect(document.layers.map((layer) => layer.groupId)).toEqual(['g', 'g', null]);
+  });
+
+  it('nests a selected group inside the new one', () => {
+    let document = groupLayers(documentWith(['a', 'b', 'c']), ['a', 'b'], { id: 'inner', name: 'Inner' });
+    document = groupLayers(document, ['a', 'b', 'c'], { id: 'outer', name: 'Outer' });
+
+    expect(document.groups.find((group) => group.id === 'inner')?.parentId).toBe('outer');
+    expect(groupLayerIds(document, 'outer')).toEqual(['a', 'b', 'c']);
+    expect(pickLayerIds(document, 'a')).toEqual(['a', 'b', 'c']);
+  });
+
+  it('needs at least two units', () => {
+    const document = documentWith(['a', 'b']);
+
+    expect(groupLayers(document, ['a'], { id: 'g', name: 'Group' })).toBe(document);
+  });
+});
+
+describe('selectionUnits', () => {
+  it('keeps a fully selected group together and splits a partly selected one', () => {
+    const document = groupLayers(documentWith(['a', 'b', 'c']), ['a', 'b'], { id: 'g', name: 'Group' });
+
+    expect(selectionUnits(document, ['a', 'b', 'c'])).toEqual([
+      { groupId: 'g', layerIds: ['a', 'b'] },
+      { groupId: null, layerIds: ['c'] },
+    ]);
+    expect(selectionUnits(document, ['a', 'c'])).toEqual([
+      { groupId: null, layerIds: ['a'] },
+      { groupId: null, layerIds: ['c'] },
+    ]);
+  });
+});
+
+describe('ungroupLayers', () => {
+  it('hands layers and child groups to the surrounding group', () => {
+    let document = groupLayers(documentWith(['a', 'b', 'c']), ['a', 'b'], { id: 'inner', name: 'Inner' });
+    document = groupLayers(document, ['a', 'b', 'c'], { id: 'outer', name: 'Outer' });
+    document = ungroupLayers(document, ['outer']);
+
+    expect(document.groups).toEqual([{ id: 'inner', name: 'Inner', parentId: null }]);
+    expect(document.layers.map((layer) => layer.groupId)).toEqual(['inner', 'inner', null]);
+  });
+});
+
+describe('pruneGroups', () => {
+  it('drops groups whose layers are gone', () => {
+    const grouped = groupLayers(documentWith(['a', 'b', 'c']), ['a', 'b'], { id: 'g', name: 'Group' });
+    const document = pruneGroups({ ...grouped, layers: grouped.layers.filter((layer) => layer.id === 'c') });
+
+    expect(document.groups).toEqual([]);
+  });
+
+  it('returns the document untouched when every group has layers', () => {
+    const document = groupLayers(documentWith(['a', 'b']), ['a', 'b'], { id: 'g', name: 'Group' });
+
+    expect(pruneGroups(document)).toBe(document);
+  });
+});
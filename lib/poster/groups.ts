@@ -0,0 +1,107 @@
+import type { LayerGroup, PosterDocument } from './document';
+
+// A layer or a whole group that moves, aligns and distributes as one piece.
+export interface SelectionUnit {
+  groupId: string | null;
+  layerIds: string[];
+}
+
+// The group and the groups around it, innermost first.
+export function groupAncestry(document: PosterDocument, groupId: string | null): LayerGroup[] {
+  const ancestry: LayerGroup[] = [];
+  let group = document.groups.find((candidate) => candidate.id === groupId);
+  // A broken parent chain must not loop forever.
+  while (group && !ancestry.includes(group)) {
+    ancestry.push(group);
+    const parentId = group.parentId;
+    group = document.groups.find((candidate) => candidate.id === parentId);
+  }
+  return ancestry;
+}
+
+// Every layer in the group, including those in groups nested inside it.
+export function groupLayerIds(document: PosterDocument, groupId: string) {
+  return document.layers
+    .filter((layer) => groupAncestry(document, layer.groupId).some((group) => group.id === groupId))
+    .map((layer) => layer.id);
+}
+
+// What clicking a layer on the canvas selects: its outermost group, or the layer on its own.
+export function pickLayerIds(document: PosterDocument, layerId: string) {
+  const layer = document.layers.find((candidate) => candidate.id === layerId);
+  if (!layer) return [];
+  const outermost = groupAncestry(document, layer.groupId).pop();
+  return outermost ? groupLayerIds(document, outermost.id) : [layer.id];
+}
+
+// Splits a selection into the largest groups it fully covers and the loose layers left over.
+export function selectionUnits(document: PosterDocument, layerIds: string[]): SelectionUnit[] {
+  const selected = new Set(layerIds);
+  const units = new Map<string, SelectionUnit>();
+  document.layers.forEach((layer) => {
+    if (!selected.has(layer.id)) return;
+    const group = groupAncestry(document, layer.groupId)
+      .reverse()
+      .find((candidate) => groupLayerIds(document, candidate.id).every((id) => selected.has(id)));
+    const key = group ? group.id : `layer:${layer.id}`;
+    const unit = units.get(key) ?? { groupId: group?.id ?? null, layerIds: [] };
+    unit.layerIds.push(layer.id);
+    units.set(key, unit);
+  });
+  return Array.from(units.values());
+}
+
+// Drops groups left without layers, directly or in groups nested inside them.
+export function pruneGroups(document: PosterDocument): PosterDocument {
+  const empty = document.groups.filter((group) => groupLayerIds(document, group.id).length === 0);
+  if (empty.length === 0) return document;
+  const emptyIds = new Set(empty.map((group) => group.id));
+  return {
+    ...document,
+    groups: document.groups.filter((group) => !emptyIds.has(group.id)),
+  };
+}
+
+// Puts the selected layers and groups into a new group. It nests inside the group they already
+// share, if any.
+export function groupLayers(document: PosterDocument, layerIds: string[], group: Omit<LayerGroup, 'parentId'>) {
+  const units = selectionUnits(document, layerIds);
+  if (units.length < 2) return document;
+
+  const parentOf = (unit: SelectionUnit) =>
+    unit.groupId
+      ? document.groups.find((candidate) => candidate.id === unit.groupId)?.parentId ?? null
+      : document.layers.find((layer) => layer.id === unit.layerIds[0])?.groupId ?? null;
+  const parents = new Set(units.map(parentOf));
+  const parentId = parents.size === 1 ? parents.values().next().value ?? null : null;
+
+  const groupIds = new Set(units.map((unit) => unit.groupId).filter((id): id is string => id !== null));
+  const looseIds = new Set(units.filter((unit) => unit.groupId === null).map((unit) => unit.layerIds[0]));
+  return pruneGroups({
+    ...document,
+    layers: document.layers.map((layer) => (looseIds.has(layer.id) ? { ...layer, groupId: group.id } : layer)),
+    groups: [
+      ...document.groups.map((candidate) =>
+        groupIds.has(candidate.id) ? { ...candidate, parentId: group.id } : candidate
+      ),
+      { ...group, parentId },
+    ],
+  });
+}
+
+// Dissolves the groups, handing their layers and child groups to the group around each.
+export function ungroupLayers(document: PosterDocument, groupIds: string[]) {
+  let next = document;
+  groupIds.forEach((groupId) => {
+    const group = next.groups.find((candidate) => candidate.id === groupId);
+    if (!group) return;
+    next = {
+      ...next,
+      layers: next.layers.map((layer) => (layer.groupId === group.id ? { ...layer, groupId: group.parentId } : layer)),
+      groups: next.groups
+        .filter((candidate) => candidate.id !== group.id)
+        .map((candidate) => (candidate.parentId === group.id ? { ...candidate, parentId: group.parentId } : candidate)),
+    };
+  });
+  return next;
+}
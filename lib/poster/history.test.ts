@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultDocument, findLayer } from './document';
+import { createHistory, historyReducer, type PosterHistory } from './history';
+import type { PosterAction } from './reducer';
+
+const commit = (history: PosterHistory, action: PosterAction, timestamp: number) =>
+  historyReducer(history, { type: 'COMMIT', action, timestamp });
+
+const resize = (width: number): PosterAction => ({ type: 'SET_CANVAS_SIZE', width, height: 500 });
+
+describe('historyReducer', () => {
+  it('collapses edits of the same field inside the window into one step', () => {
+    let history = createHistory(createDefaultDocument());
+    history = commit(history, resize(400), 1000);
+    history = commit(history, resize(410), 1500);
+    history = commit(history, resize(420), 2200);
+
+    expect(history.past).toHaveLength(1);
+    expect(history.present.document.canvas.width).toBe(420);
+    expect(history.present.label).toBe('Resize canvas');
+  });
+
+  it('starts a new step once the window has passed', () => {
+    let history = createHistory(createDefaultDocument());
+    history = commit(history, resize(400), 1000);
+    history = commit(history, resize(410), 2000);
+
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('does not collapse edits of different fields', () => {
+    const document = createDefaultDocument();
+    const [layer] = document.layers;
+    let history = createHistory(document);
+    history = commit(history, { type: 'UPDATE_LAYER', id: layer.id, changes: { opacity: 0.5 } }, 1000);
+    history = commit(history, { type: 'UPDATE_LAYER', id: layer.id, changes: { rotation: 10 } }, 1100);
+
+    expect(history.past).toHaveLength(2);
+  });
+
+  it('ignores actions that leave the document unchanged', () => {
+    const document = createDefaultDocument();
+    const history = createHistory(document);
+    const [layer] = document.layers;
+
+    expect(commit(history, { type: 'MOVE_LAYER', id: layer.id, x: layer.x, y: layer.y }, 1000)).toBe(history);
+    expect(commit(history, { type: 'UPDATE_LAYER', id: layer.id, changes: { rotation: layer.rotation } }, 1000)).toBe(
+      history
+    );
+  });
+
+  it('undoes and redoes a collapsed step as a whole', () => {
+    const document = createDefaultDocument();
+    let history = createHistory(document);
+    history = commit(history, resize(400), 1000);
+    history = commit(history, resize(420), 1200);
+
+    history = historyReducer(history, { type: 'UNDO' });
+    expect(history.present.document).toBe(document);
+    expect(history.future).toHaveLength(1);
+
+    history = historyReducer(history, { type: 'REDO' });
+    expect(history.present.document.canvas.width).toBe(420);
+    expect(history.future).toHaveLength(0);
+  });
+
+  it('does not collapse an edit into a step reached by undo', () => {
+    let history = createHistory(createDefaultDocument());
+    history = commit(history, resize(400), 1000);
+    history = commit(history, resize(500), 3000);
+    history = historyReducer(history, { type: 'UNDO' });
+    history = commit(history, resize(410), 3100);
+
+    expect(history.past.map((entry) => entry.document.canvas.width)).toEqual([344, 400]);
+    expect(history.present.document.canvas.width).toBe(410);
+    expect(history.future).toHaveLength(0);
+  });
+
+  it('jumps to any entry and keeps the rest redoable', () => {
+    let history = createHistory(createDefaultDocument());
+    history = commit(history, resize(400), 1000);
+    history = commit(history, resize(500), 3000);
+    history = historyReducer(history, { type: 'JUMP', entryId: 0 });
+
+    expect(history.present.id).toBe(0);
+    expect(history.future).toHaveLength(2);
+  });
+
+  it('labels steps with the layer they changed', () => {
+    const document = createDefaultDocument();
+    const [layer] = document.layers;
+    const history = commit(createHistory(document), { type: 'MOVE_LAYER', id: layer.id, x: 0, y: 0 }, 1000);
+
+    expect(history.present.label).toContain(findLayer(document, layer.id)?.name);
+  });
+});
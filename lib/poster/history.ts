@@ -0,0 +1,204 @@
+import { findLayer, type PosterDocument } from './document';
+import { posterReducer, type PosterAction } from './reducer';
+
+const HISTORY_LIMIT = 100;
+// Consecutive edits of the same field within this window collapse into one undo step.
+const COALESCE_WINDOW_MS = 1000;
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  document: PosterDocument;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+export interface PosterHistory {
+  past: HistoryEntry[];
+  present: HistoryEntry;
+  future: HistoryEntry[];
+  nextId: number;
+}
+
+export type HistoryAction =
+  | {
+      type: 'COMMIT';
+      action: PosterAction;
+      timestamp: number;
+    }
+  | {
+      type: 'UNDO';
+    }
+  | {
+      type: 'REDO';
+    }
+  | {
+      type: 'JUMP';
+      entryId: number;
+    }
+  | {
+      type: 'RESET';
+      document: PosterDocument;
+      label: string;
+    };
+
+export function createHistory(document: PosterDocument, label = 'Open poster'): PosterHistory {
+  return {
+    past: [],
+    present: { id: 0, label, document, timestamp: 0 },
+    future: [],
+    nextId: 1,
+  };
+}
+
+export function describeAction(action: PosterAction, document: PosterDocument) {
+  const layerName = (id: string) => findLayer(document, id)?.name ?? 'layer';
+
+  switch (action.type) {
+    case 'LOAD_DOCUMENT':
+      return 'Open poster';
+    case 'SET_CANVAS_SIZE':
+      return 'Resize canvas';
+    case 'SET_BACKGROUND':
+      return 'Change background';
+    case 'SET_LAYOUT':
+      return 'Change guides and grids';
+    case 'ADD_FONT':
+      return `Add font ${action.font.family}`;
+    case 'ADD_STICKER':
+      return `Add sticker ${action.sticker.name}`;
+    case 'REMOVE_STICKER':
+      return 'Remove sticker';
+    case 'ADD_LAYER':
+      return `Add ${action.layer.name}`;
+    case 'UPDATE_LAYER':
+      return `Edit ${layerName(action.id)}`;
+    case 'MOVE_LAYER':
+      return `Move ${layerName(action.id)}`;
+    case 'MOVE_LAYERS':
+      return action.moves.length === 1 ? `Move ${layerName(action.moves[0].id)}` : `Move ${action.moves.length} layers`;
+    case 'UPDATE_LAYERS':
+      return action.updates.length === 1
+        ? `Edit ${layerName(action.updates[0].id)}`
+        : `Edit ${action.updates.length} layers`;
+    case 'RESIZE_LAYER':
+      return `Resize ${layerName(action.id)}`;
+    case 'REMOVE_LAYER':
+      return `Delete ${layerName(action.id)}`;
+    case 'REMOVE_LAYERS':
+      return action.ids.length === 1 ? `Delete ${layerName(action.ids[0])}` : `Delete ${action.ids.length} layers`;
+    case 'GROUP_LAYERS':
+      return `Group as ${action.group.name}`;
+    case 'UNGROUP':
+      return action.groupIds.length === 1 ? 'Ungroup' : `Ungroup ${action.groupIds.length} groups`;
+    case 'DUPLICATE_LAYER':
+      return `Duplicate ${layerName(action.id)}`;
+    case 'REORDER_LAYER':
+      return `Reorder ${layerName(action.id)}`;
+  }
+}
+
+function coalesceKeyFor(action: PosterAction) {
+  switch (action.type) {
+    case 'SET_CANVAS_SIZE':
+      return 'canvas-size';
+    case 'SET_BACKGROUND':
+      return 'background';
+    case 'SET_LAYOUT':
+      return 'layout';
+    case 'UPDATE_LAYER':
+      return `update:${action.id}:${Object.keys(action.changes).sort().join(',')}`;
+    case 'UPDATE_LAYERS': {
+      const ids = action.updates.map((update) => update.id).sort();
+      const keys = new Set(action.updates.flatMap((update) => Object.keys(update.changes)));
+      return `update:${ids.join(',')}:${Array.from(keys).sort().join(',')}`;
+    }
+    default:
+      return undefined;
+  }
+}
+
+export function allEntries(history: PosterHistory) {
+  return [...history.past, history.present, ...history.future];
+}
+
+export const historyReducer = (state: PosterHistory, action: HistoryAction): PosterHistory => {
+  switch (action.type) {
+    case 'COMMIT': {
+      const { present } = state;
+      const document = posterReducer(present.document, action.action);
+      if (document === present.document) {
+        return state;
+      }
+
+      const coalesceKey = coalesceKeyFor(action.action);
+      if (
+        coalesceKey !== undefined &&
+        coalesceKey === present.coalesceKey &&
+        action.timestamp - present.timestamp < COALESCE_WINDOW_MS
+      ) {
+        return {
+          ...state,
+          present: { ...present, document, timestamp: action.timestamp },
+          future: [],
+        };
+      }
+
+      return {
+        past: [...state.past, present].slice(-HISTORY_LIMIT),
+        present: {
+          id: state.nextId,
+          label: describeAction(action.action, present.document),
+          document,
+          coalesceKey,
+          timestamp: action.timestamp,
+        },
+        future: [],
+        nextId: state.nextId + 1,
+      };
+    }
+
+    case 'UNDO': {
+      if (state.past.length === 0) {
+        return state;
+      }
+      const previous = state.past[state.past.length - 1];
+      return {
+        ...state,
+        past: state.past.slice(0, -1),
+        present: { ...previous, coalesceKey: undefined },
+        future: [state.present, ...state.future],
+      };
+    }
+
+    case 'REDO': {
+      if (state.future.length === 0) {
+        return state;
+      }
+      const [next, ...future] = state.future;
+      return {
+        ...state,
+        past: [...state.past, state.present],
+        present: { ...next, coalesceKey: undefined },
+        future,
+      };
+    }
+
+    case 'JUMP': {
+      const entries = allEntries(state);
+      const index = entries.findIndex((entry) => entry.id === action.entryId);
+      if (index === -1 || entries[index].id === state.present.id) {
+        return state;
+      }
+      return {
+        ...state,
+        past: entries.slice(0, index),
+        present: { ...entries[index], coalesceKey: undefined },
+        future: entries.slice(index + 1),
+      };
+    }
+
+    case 'RESET':
+      return createHistory(action.document, action.label);
+  }
+};
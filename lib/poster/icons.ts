@@ -0,0 +1,23 @@
+import { icons, type LucideIcon } from 'lucide-react';
+
+export const ICON_NAMES = Object.keys(icons) as (keyof typeof icons)[];
+
+// 'ArrowBigDown' is searchable as "arrow big down".
+const SEARCH_TEXT = new Map(
+  ICON_NAMES.map((name) => [name, name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase()])
+);
+
+export function iconComponent(name: string): LucideIcon | undefined {
+  return icons[name as keyof typeof icons];
+}
+
+// Icons whose name contains every word of the query, shortest names first.
+export function searchIcons(query: string, limit: number) {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matches = ICON_NAMES.filter((name) => {
+    const text = SEARCH_TEXT.get(name) ?? '';
+    return words.every((word) => text.includes(word));
+  });
+  if (words.length > 0) matches.sort((a, b) => a.length - b.length);
+  return matches.slice(0, limit);
+}
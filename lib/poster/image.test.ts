@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import type { ImageLayer } from './document';
+import { clampCrop, imageLayout, panCrop, zoomCrop } from './image';
+
+type LayoutInput = Parameters<typeof imageLayout>[0];
+
+const layer = (changes: Partial<LayoutInput> = {}): LayoutInput => ({
+  width: 200,
+  height: 100,
+  naturalWidth: 400,
+  naturalHeight: 400,
+  crop: { x: 0, y: 0, width: 1, height: 1 },
+  fit: 'cover' as ImageLayer['fit'],
+  focalPoint: { x: 0.5, y: 0.5 },
+  flipX: false,
+  flipY: false,
+  ...changes,
+});
+
+describe('imageLayout', () => {
+  it('covers the box and centres the overflow on the focal point', () => {
+    const { content, image } = imageLayout(layer());
+
+    expect(content).toEqual({ left: 0, top: -50, width: 200, height: 200 });
+    expect(image).toMatchObject({ width: 200, height: 200 });
+  });
+
+  it('fits the whole crop inside the box with contain', () => {
+    expect(imageLayout(layer({ fit: 'contain' })).content).toEqual({ left: 50, top: 0, width: 100, height: 100 });
+  });
+
+  it('stretches the crop to the box with fill', () => {
+    expect(imageLayout(layer({ fit: 'fill' })).content).toEqual({ left: 0, top: 0, width: 200, height: 100 });
+  });
+
+  it('keeps the source pixel size with none', () => {
+    expect(imageLayout(layer({ fit: 'none' })).content).toEqual({ left: -100, top: -150, width: 400, height: 400 });
+  });
+
+  it('offsets the source image so the cropped region lines up', () => {
+    const { image } = imageLayout(layer({ fit: 'fill', crop: { x: 0.5, y: 0, width: 0.5, height: 0.5 } }));
+
+    expect(image).toMatchObject({ left: -200, width: 400, height: 200 });
+  });
+
+  it('moves the focal point with a flipped image', () => {
+    const focalPoint = { x: 0, y: 0.5 };
+
+    expect(imageLayout(layer({ fit: 'contain', focalPoint })).content.left).toBe(0);
+    expect(imageLayout(layer({ fit: 'contain', focalPoint, flipX: true })).content.left).toBe(100);
+  });
+});
+
+describe('crops', () => {
+  it('keeps a crop inside the image', () => {
+    expect(clampCrop({ x: 0.9, y: -0.1, width: 0.5, height: 2 })).toEqual({ x: 0.5, y: 0, width: 0.5, height: 1 });
+    expect(clampCrop({ x: 0, y: 0, width: 0.01, height: 0.5 }).width).toBe(0.05);
+  });
+
+  it('pans until the crop reaches an edge', () => {
+    expect(panCrop({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, 0.5, -0.5)).toEqual({
+      x: 0.5,
+      y: 0,
+      width: 0.5,
+      height: 0.5,
+    });
+  });
+
+  it('zooms around the centre of the crop', () => {
+    expect(zoomCrop({ x: 0, y: 0, width: 1, height: 1 }, 0.5)).toEqual({ x: 0.25, y: 0.25, width: 0.5, height: 0.5 });
+  });
+
+  it('zooms out no further than the whole image', () => {
+    expect(zoomCrop({ x: 0, y: 0, width: 0.5, height: 0.5 }, 4)).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+});
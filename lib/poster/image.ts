@@ -0,0 +1,89 @@
+import type { ImageCrop, ImageLayer } from './document';
+
+const MIN_CROP_SIZE = 0.05;
+
+export interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Where the cropped region lands inside the layer box (`content`) and where the whole source
+// image has to sit, relative to that region, for the crop to line up (`image`).
+export function imageLayout(
+  layer: Pick<
+    ImageLayer,
+    'width' | 'height' | 'naturalWidth' | 'naturalHeight' | 'crop' | 'fit' | 'focalPoint' | 'flipX' | 'flipY'
+  >
+): { content: Rect; image: Rect } {
+  const { crop } = layer;
+  // The focal point is a point of the image, so it moves with it when the image is flipped.
+  const focalX = layer.flipX ? 1 - layer.focalPoint.x : layer.focalPoint.x;
+  const focalY = layer.flipY ? 1 - layer.focalPoint.y : layer.focalPoint.y;
+  const cropWidth = crop.width * layer.naturalWidth;
+  const cropHeight = crop.height * layer.naturalHeight;
+
+  let scaleX = layer.width / cropWidth;
+  let scaleY = layer.height / cropHeight;
+  switch (layer.fit) {
+    case 'cover':
+      scaleX = scaleY = Math.max(scaleX, scaleY);
+      break;
+    case 'contain':
+      scaleX = scaleY = Math.min(scaleX, scaleY);
+      break;
+    case 'none':
+      scaleX = scaleY = 1;
+      break;
+  }
+
+  const width = cropWidth * scaleX;
+  const height = cropHeight * scaleY;
+  return {
+    content: {
+      left: (layer.width - width) * focalX,
+      top: (layer.height - height) * focalY,
+      width,
+      height,
+    },
+    image: {
+      left: -crop.x * layer.naturalWidth * scaleX,
+      top: -crop.y * layer.naturalHeight * scaleY,
+      width: layer.naturalWidth * scaleX,
+      height: layer.naturalHeight * scaleY,
+    },
+  };
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+// Keeps a crop inside the source image, shrinking it only if it is larger than the image.
+export function clampCrop(crop: ImageCrop): ImageCrop {
+  const width = clamp(crop.width, MIN_CROP_SIZE, 1);
+  const height = clamp(crop.height, MIN_CROP_SIZE, 1);
+  return {
+    x: clamp(crop.x, 0, 1 - width),
+    y: clamp(crop.y, 0, 1 - height),
+    width,
+    height,
+  };
+}
+
+export function panCrop(crop: ImageCrop, dx: number, dy: number) {
+  return clampCrop({ ...crop, x: crop.x + dx, y: crop.y + dy });
+}
+
+// Scales the crop around its centre; a factor below 1 zooms in.
+export function zoomCrop(crop: ImageCrop, factor: number) {
+  const width = clamp(crop.width * factor, MIN_CROP_SIZE, 1);
+  const height = clamp(crop.height * factor, MIN_CROP_SIZE, 1);
+  return clampCrop({
+    x: crop.x + (crop.width - width) / 2,
+    y: crop.y + (crop.height - height) / 2,
+    width,
+    height,
+  });
+}
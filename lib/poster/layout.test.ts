@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POSTER_LAYOUT } from './document';
+import { baselinePositions, columnEdges, formatLength, rulerTicks } from './layout';
+import { snapLayerPosition } from './snapping';
+
+const canvas = { width: 400, height: 400 };
+
+const box = (x: number, y: number) => ({ x, y, width: 50, height: 50, rotation: 0, skewX: 0, skewY: 0 });
+
+describe('formatLength', () => {
+  it('shows pixels whole and other units to two decimals', () => {
+    expect(formatLength(12.4, 'px')).toBe('12 px');
+    expect(formatLength(96, 'in')).toBe('1 in');
+    expect(formatLength(100, 'mm')).toBe('26.46 mm');
+  });
+});
+
+describe('rulerTicks', () => {
+  it('labels the smallest step that leaves room and adds minor ticks between', () => {
+    const ticks = rulerTicks(100, 'px', 1);
+
+    expect(ticks).toHaveLength(11);
+    expect(ticks.filter((tick) => tick.label !== null)).toEqual([
+      { position: 0, label: '0' },
+      { position: 50, label: '50' },
+      { position: 100, label: '100' },
+    ]);
+  });
+
+  it('counts in the ruler unit', () => {
+    const labels = rulerTicks(96, 'in', 2)
+      .map((tick) => tick.label)
+      .filter((label) => label !== null);
+
+    expect(labels).toEqual(['0', '0.5', '1']);
+  });
+});
+
+describe('grids', () => {
+  it('splits the space between the margins into columns and gutters', () => {
+    expect(columnEdges(canvas, { enabled: true, count: 4, gutter: 20, margin: 20 })).toEqual([
+      { left: 20, right: 95 },
+      { left: 115, right: 190 },
+      { left: 210, right: 285 },
+      { left: 305, right: 380 },
+    ]);
+  });
+
+  it('places baselines from the offset down to the bottom of the canvas', () => {
+    expect(baselinePositions({ width: 100, height: 50 }, { enabled: true, spacing: 12, offset: 5 })).toEqual([
+      5, 17, 29, 41,
+    ]);
+  });
+
+  it('snaps to the baseline grid only while it is shown', () => {
+    const baseline = { enabled: true, spacing: 12, offset: 0 };
+    const shown = snapLayerPosition(box(0, 0), 100, 100, [], canvas, { ...DEFAULT_POSTER_LAYOUT, baseline });
+    const hidden = snapLayerPosition(box(0, 0), 100, 100, [], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(shown.y).toBe(96);
+    expect(shown.guides).toEqual([{ axis: 'y', position: 96, start: 0, end: 400 }]);
+    expect(hidden.y).toBe(100);
+  });
+
+  it('snaps to guides on their own axis', () => {
+    const layout = { ...DEFAULT_POSTER_LAYOUT, guides: [{ axis: 'x' as const, position: 104 }] };
+    const result = snapLayerPosition(box(0, 0), 100, 100, [], canvas, layout);
+
+    expect(result.x).toBe(104);
+    expect(result.y).toBe(100);
+  });
+});
@@ -0,0 +1,73 @@
+import type { BaselineGrid, ColumnGrid, PosterDocument, RulerUnit } from './document';
+
+// Canvas pixels are CSS pixels, which are defined as 1/96 of an inch.
+export const UNIT_PIXELS: Record<RulerUnit, number> = {
+  px: 1,
+  mm: 96 / 25.4,
+  in: 96,
+};
+
+export const RULER_UNITS: { value: RulerUnit; label: string }[] = [
+  { value: 'px', label: 'Pixels' },
+  { value: 'mm', label: 'Millimetres' },
+  { value: 'in', label: 'Inches' },
+];
+
+// Distances between labelled ruler ticks, in the ruler's unit; the smallest that leaves enough
+// room on screen is used.
+const RULER_STEPS: Record<RulerUnit, number[]> = {
+  px: [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000],
+  mm: [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000],
+  in: [0.125, 0.25, 0.5, 1, 2, 5, 10, 20],
+};
+const MIN_LABEL_SPACING = 50;
+const MINOR_TICKS = 5;
+
+export interface RulerTick {
+  // Canvas pixels from the canvas edge.
+  position: number;
+  // Only set on the labelled ticks.
+  label: string | null;
+}
+
+export function formatLength(pixels: number, unit: RulerUnit) {
+  const value = pixels / UNIT_PIXELS[unit];
+  const rounded = unit === 'px' ? Math.round(value) : Math.round(value * 100) / 100;
+  return `${rounded} ${unit}`;
+}
+
+// Ticks along a ruler of `length` canvas pixels shown at `zoom`.
+export function rulerTicks(length: number, unit: RulerUnit, zoom: number): RulerTick[] {
+  const pixels = UNIT_PIXELS[unit];
+  const steps = RULER_STEPS[unit];
+  const step = steps.find((candidate) => candidate * pixels * zoom >= MIN_LABEL_SPACING) ?? steps[steps.length - 1];
+  const minor = (step * pixels) / MINOR_TICKS;
+
+  const ticks: RulerTick[] = [];
+  for (let index = 0; index * minor <= length; index++) {
+    const labelled = index % MINOR_TICKS === 0;
+    // Labels count in the unit itself, so an inch ruler reads 0, 0.5, 1 rather than 0, 48, 96.
+    const value = Math.round((index / MINOR_TICKS) * step * 1000) / 1000;
+    ticks.push({ position: index * minor, label: labelled ? String(value) : null });
+  }
+  return ticks;
+}
+
+// The left and right edge of every column.
+export function columnEdges(canvas: PosterDocument['canvas'], columns: ColumnGrid) {
+  const inner = canvas.width - columns.margin * 2;
+  const width = Math.max(0, (inner - columns.gutter * (columns.count - 1)) / columns.count);
+  return Array.from({ length: columns.count }, (_, index) => {
+    const left = columns.margin + index * (width + columns.gutter);
+    return { left, right: left + width };
+  });
+}
+
+// The y position of every baseline on the canvas.
+export function baselinePositions(canvas: PosterDocument['canvas'], baseline: BaselineGrid) {
+  const positions: number[] = [];
+  for (let y = baseline.offset; y <= canvas.height; y += baseline.spacing) {
+    positions.push(y);
+  }
+  return positions;
+}
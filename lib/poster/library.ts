@@ -0,0 +1,107 @@
+import type { PosterDocument } from './document';
+import type { PosterAsset } from './assets';
+import { readPosterDocument } from './migrations';
+import {
+  loadDraft,
+  openDatabase,
+  promisifyRequest,
+  PROJECT_SUMMARIES_STORE,
+  PROJECTS_STORE,
+  saveDraft,
+  type PosterDraft,
+} from './storage';
+
+export interface PosterProject {
+  id: string;
+  name: string;
+  document: PosterDocument;
+  assets: PosterAsset[];
+  thumbnail: Blob | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type PosterProjectSummary = Pick<PosterProject, 'id' | 'name' | 'thumbnail' | 'createdAt' | 'updatedAt'>;
+
+export function createProjectId() {
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// Every project is stored twice: in full, and as the summary the library lists.
+async function libraryStores(mode: IDBTransactionMode) {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, PROJECT_SUMMARIES_STORE], mode);
+  return {
+    projects: transaction.objectStore(PROJECTS_STORE),
+    summaries: transaction.objectStore(PROJECT_SUMMARIES_STORE),
+  };
+}
+
+export async function listProjects(): Promise<PosterProjectSummary[]> {
+  const { summaries } = await libraryStores('readonly');
+  const projects: PosterProjectSummary[] = await promisifyRequest(summaries.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getProject(id: string): Promise<PosterProject | null> {
+  const { projects } = await libraryStores('readonly');
+  const project: PosterProject | undefined = await promisifyRequest(projects.get(id));
+  if (!project) {
+    return null;
+  }
+  return { ...project, document: readPosterDocument(project.document) };
+}
+
+export async function saveProject(project: PosterProject) {
+  const { projects, summaries } = await libraryStores('readwrite');
+  const { id, name, thumbnail, createdAt, updatedAt } = project;
+  await Promise.all([
+    promisifyRequest(projects.put(project)),
+    promisifyRequest(summaries.put({ id, name, thumbnail, createdAt, updatedAt })),
+  ]);
+  return project;
+}
+
+export async function renameProject(id: string, name: string) {
+  const project = await getProject(id);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const renamed = await saveProject({ ...project, name, updatedAt: Date.now() });
+  // The editor's working copy names the project it came from; keep that name current too.
+  const draft = await loadDraft();
+  if (draft?.project?.id === id) {
+    await saveDraft({ ...draft, project: { id, name } });
+  }
+  return renamed;
+}
+
+// Whether the draft is a working copy of a library project without unsaved changes, so replacing it
+// loses nothing. Both documents come out of the same schema, so equal ones serialize the same.
+export async function isUnchangedProjectDraft(draft: PosterDraft) {
+  if (!draft.project) {
+    return false;
+  }
+  const project = await getProject(draft.project.id);
+  return project !== null && JSON.stringify(project.document) === JSON.stringify(draft.document);
+}
+
+export async function duplicateProject(id: string) {
+  const project = await getProject(id);
+  if (!project) {
+    throw new Error('Project not found');
+  }
+  const now = Date.now();
+  return saveProject({
+    ...project,
+    id: createProjectId(),
+    name: `${project.name} copy`,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+export async function deleteProject(id: string) {
+  const { projects, summaries } = await libraryStores('readwrite');
+  await Promise.all([promisifyRequest(projects.delete(id)), promisifyRequest(summaries.delete(id))]);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultDocument, POSTER_DOCUMENT_VERSION } from './document';
+import { migratePosterDocument, readPosterDocument } from './migrations';
+
+// Stored the way the first persisted version wrote documents.
+const v1Document = {
+  version: 1,
+  canvas: { width: 344, height: 444 },
+  background: { color: '#ffffff' },
+  layers: [
+    {
+      id: 'title',
+      name: 'Title',
+      type: 'text',
+      text: '00',
+      x: 20,
+      y: 20,
+      width: 304,
+      height: 60,
+      style: {
+        fontSize: 60,
+        fontWeight: 700,
+        lineHeight: 1,
+        color: '#fff',
+        textShadow: '2px 2px 4px rgba(0, 0, 0, 0.5)',
+      },
+    },
+    { id: 'photo', name: 'Photo', type: 'image', assetId: 'asset-1', x: 0, y: 0, width: 200, height: 100 },
+    { id: 'qr', name: 'QR code', type: 'qr', value: 'https://example.com/', x: 20, y: 140, width: 116, height: 116 },
+  ],
+};
+
+describe('readPosterDocument', () => {
+  it('upgrades a v1 document through every migration', () => {
+    const document = readPosterDocument(v1Document);
+
+    expect(document.version).toBe(POSTER_DOCUMENT_VERSION);
+    expect(document.background).toEqual({ color: '#ffffff', fill: null });
+    expect(document.fonts).toEqual([]);
+    expect(document.stickers).toEqual([]);
+    expect(document.groups).toEqual([]);
+    expect(document.layout.columns.margin).toBe(20);
+    document.layers.forEach((layer) => {
+      expect(layer).toMatchObject({
+        opacity: 1,
+        blendMode: 'normal',
+        rotation: 0,
+        skewX: 0,
+        skewY: 0,
+        groupId: null,
+        visible: true,
+        locked: false,
+      });
+    });
+  });
+
+  it('carries v1 text over into spans and a structured shadow', () => {
+    const [title] = readPosterDocument(v1Document).layers;
+
+    expect(title).toMatchObject({
+      type: 'text',
+      spans: [{ text: '00' }],
+      fit: 'fixed',
+      style: {
+        fontFamily: 'Inter',
+        fontSize: 60,
+        color: '#ffffff',
+        direction: 'ltr',
+        fill: null,
+        effects: [{ type: 'shadow', offsetX: 2, offsetY: 2, blur: 4, color: '#000000', opacity: 0.5 }],
+      },
+    });
+  });
+
+  it('gives v1 images their box as the source size and neutral settings', () => {
+    const photo = readPosterDocument(v1Document).layers[1];
+
+    expect(photo).toMatchObject({
+      type: 'image',
+      naturalWidth: 200,
+      naturalHeight: 100,
+      crop: { x: 0, y: 0, width: 1, height: 1 },
+      fit: 'cover',
+      adjustments: { brightness: 0, duotone: null },
+      frame: { shape: { type: 'rectangle', cornerRadius: 0 }, feather: 0, border: null },
+    });
+  });
+
+  it('leaves a current document as it is', () => {
+    const document = createDefaultDocument();
+
+    expect(readPosterDocument(document)).toEqual(document);
+  });
+
+  it('rejects a document that fails validation after migrating', () => {
+    expect(() => readPosterDocument({ ...v1Document, canvas: { width: -1, height: 444 } })).toThrow(
+      'The poster document is invalid or corrupted.'
+    );
+  });
+});
+
+describe('migratePosterDocument', () => {
+  it('rejects input without a schema version', () => {
+    expect(() => migratePosterDocument({ layers: [] })).toThrow('The poster document has no schema version.');
+    expect(() => migratePosterDocument(null)).toThrow('The poster document has no schema version.');
+  });
+
+  it('rejects documents from a newer version of the app', () => {
+    expect(() => migratePosterDocument({ version: POSTER_DOCUMENT_VERSION + 1 })).toThrow(/newer version/);
+  });
+
+  it('leaves malformed layers for validation to reject', () => {
+    const migrated = migratePosterDocument({ ...v1Document, layers: ['not a layer'] });
+
+    expect(migrated.layers).toEqual(['not a layer']);
+  });
+});
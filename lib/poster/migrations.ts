@@ -0,0 +1,168 @@
+import { POSTER_DOCUMENT_VERSION, parsePosterDocument } from './document';
+import { parseCssColor } from './color';
+
+// Migrations see documents exactly as an older version stored them, so they work on loose shapes.
+type LooseObject = Record<string, unknown>;
+type Migration = (document: LooseObject) => LooseObject;
+
+const isLooseObject = (value: unknown): value is LooseObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asLooseObject = (value: unknown): LooseObject => (isLooseObject(value) ? value : {});
+
+// Rewrites every layer; anything in the list that is not an object is left for validation to reject.
+function mapLayers(document: LooseObject, update: (layer: LooseObject) => unknown) {
+  const layers = Array.isArray(document.layers) ? document.layers : [];
+  return { ...document, layers: layers.map((layer: unknown) => (isLooseObject(layer) ? update(layer) : layer)) };
+}
+
+// v1 text styles stored a CSS `textShadow` string; v2 adds typography fields and a structured shadow.
+function parseV1TextShadow(textShadow: unknown) {
+  if (typeof textShadow !== 'string') return null;
+  const match = /^(-?[\d.]+)px\s+(-?[\d.]+)px\s+([\d.]+)px\s+(.+)$/.exec(textShadow.trim());
+  const color = match && parseCssColor(match[4]);
+  if (!match || !color) return null;
+  return { offsetX: Number(match[1]), offsetY: Number(match[2]), blur: Number(match[3]), ...color };
+}
+
+// Keyed by the version a migration upgrades *from*. When the document schema changes
+// incompatibly, bump POSTER_DOCUMENT_VERSION and add the step from the previous version here.
+const migrations: Record<number, Migration> = {
+  1: (document) =>
+    mapLayers(document, (layer) => {
+      if (layer.type !== 'text') return layer;
+      const { textShadow, ...style } = asLooseObject(layer.style);
+      return {
+        ...layer,
+        style: {
+          fontFamily: 'Inter',
+          italic: false,
+          letterSpacing: 0,
+          align: 'left',
+          transform: 'none',
+          ...style,
+          color: parseCssColor(String(style.color ?? ''))?.color ?? '#ffffff',
+          shadow: parseV1TextShadow(textShadow),
+        },
+      };
+    }),
+  2: (document) => ({ ...document, fonts: [] }),
+  3: (document) => mapLayers(document, (layer) => (layer.type === 'text' ? { ...layer, fit: 'fixed' } : layer)),
+  4: (document) =>
+    mapLayers(document, (layer) => {
+      if (layer.type !== 'text') return layer;
+      const { text, ...rest } = layer;
+      return { ...rest, spans: [{ text: String(text ?? '') }] };
+    }),
+  5: (document) =>
+    mapLayers(document, (layer) =>
+      layer.type === 'text' ? { ...layer, style: { ...asLooseObject(layer.style), direction: 'ltr' } } : layer
+    ),
+  6: (document) =>
+    mapLayers(document, (layer) => {
+      if (layer.type !== 'text') return layer;
+      const { shadow, ...style } = asLooseObject(layer.style);
+      const effects = isLooseObject(shadow) ? [{ type: 'shadow', ...shadow }] : [];
+      return { ...layer, style: { ...style, fill: null, effects } };
+    }),
+  // Older documents did not record the source size. Using the box size keeps the centred
+  // cover rendering they had whenever the box still has the image's aspect ratio.
+  7: (document) =>
+    mapLayers(document, (layer) =>
+      layer.type === 'image'
+        ? {
+            ...layer,
+            naturalWidth: Math.max(1, Number(layer.width ?? 1)),
+            naturalHeight: Math.max(1, Number(layer.height ?? 1)),
+            crop: { x: 0, y: 0, width: 1, height: 1 },
+            fit: 'cover',
+            focalPoint: { x: 0.5, y: 0.5 },
+            flipX: false,
+            flipY: false,
+            opacity: 1,
+          }
+        : layer
+    ),
+  8: (document) =>
+    mapLayers(document, (layer) =>
+      layer.type === 'image'
+        ? {
+            ...layer,
+            adjustments: {
+              brightness: 0,
+              contrast: 0,
+              saturation: 0,
+              hue: 0,
+              exposure: 0,
+              blur: 0,
+              grayscale: 0,
+              sepia: 0,
+              duotone: null,
+              vignette: 0,
+            },
+          }
+        : layer
+    ),
+  9: (document) =>
+    mapLayers(document, (layer) =>
+      layer.type === 'image'
+        ? { ...layer, frame: { shape: { type: 'rectangle', cornerRadius: 0 }, feather: 0, border: null } }
+        : layer
+    ),
+  // Opacity moves from image layers to every layer.
+  10: (document) =>
+    mapLayers(document, (layer) => ({ ...layer, opacity: layer.opacity ?? 1, blendMode: 'normal' })),
+  // Backgrounds gain an optional gradient, pattern or image over the color.
+  11: (document) => ({
+    ...document,
+    background: { color: asLooseObject(document.background).color ?? '#ffffff', fill: null },
+  }),
+  // Shape layers are new; existing documents need no changes.
+  12: (document) => document,
+  // Uploaded stickers are kept with the poster; icon layers are new.
+  13: (document) => ({ ...document, stickers: [] }),
+  14: (document) => mapLayers(document, (layer) => ({ ...layer, rotation: 0, skewX: 0, skewY: 0 })),
+  15: (document) => ({ ...mapLayers(document, (layer) => ({ ...layer, groupId: null })), groups: [] }),
+  16: (document) => mapLayers(document, (layer) => ({ ...layer, visible: true, locked: false })),
+  // The margin matches the one snapping used before it became configurable.
+  17: (document) => ({
+    ...document,
+    layout: {
+      unit: 'px',
+      guides: [],
+      baseline: { enabled: false, spacing: 12, offset: 0 },
+      columns: { enabled: false, count: 3, gutter: 16, margin: 20 },
+    },
+  }),
+};
+
+export function migratePosterDocument(input: unknown) {
+  if (typeof input !== 'object' || input === null || typeof (input as { version?: unknown }).version !== 'number') {
+    throw new Error('The poster document has no schema version.');
+  }
+
+  let document = input as Record<string, unknown>;
+  let version = document.version as number;
+  if (version > POSTER_DOCUMENT_VERSION) {
+    throw new Error(`This poster was made with a newer version of the app (schema v${version}).`);
+  }
+
+  while (version < POSTER_DOCUMENT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Poster schema v${version} is no longer supported.`);
+    }
+    document = { ...migrate(document), version: version + 1 };
+    version += 1;
+  }
+  return document;
+}
+
+// Migrates and validates untrusted input, e.g. an imported file or a stored draft.
+export function readPosterDocument(input: unknown) {
+  const parsed = parsePosterDocument(migratePosterDocument(input));
+  if (!parsed.success) {
+    throw new Error('The poster document is invalid or corrupted.');
+  }
+  return parsed.data;
+}
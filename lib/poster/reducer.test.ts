@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createDefaultDocument, createShapeLayer, type PosterDocument } from './document';
+import { posterReducer } from './reducer';
+
+function documentWithShapes(): PosterDocument {
+  const document = createDefaultDocument();
+  const shape = (id: string) => ({ ...createShapeLayer('rectangle', document.canvas), id, name: id, x: 10, y: 20 });
+  return { ...document, layers: [shape('a'), shape('b')] };
+}
+
+describe('posterReducer', () => {
+  it('moves several layers at once', () => {
+    const document = posterReducer(documentWithShapes(), {
+      type: 'MOVE_LAYERS',
+      moves: [{ id: 'a', x: 30, y: 40 }],
+    });
+
+    expect(document.layers.map(({ x, y }) => ({ x, y }))).toEqual([
+      { x: 30, y: 40 },
+      { x: 10, y: 20 },
+    ]);
+  });
+
+  it('returns the same state for moves that change nothing', () => {
+    const state = documentWithShapes();
+
+    expect(posterReducer(state, { type: 'MOVE_LAYERS', moves: [] })).toBe(state);
+    expect(posterReducer(state, { type: 'MOVE_LAYERS', moves: [{ id: 'a', x: 10, y: 20 }] })).toBe(state);
+  });
+
+  it('returns the same state for a single-layer update that changes nothing', () => {
+    const state = documentWithShapes();
+
+    expect(posterReducer(state, { type: 'UPDATE_LAYER', id: 'a', changes: { rotation: 0, opacity: 1 } })).toBe(state);
+    const rotated = posterReducer(state, { type: 'UPDATE_LAYER', id: 'a', changes: { rotation: 15 } });
+
+    expect(rotated.layers[0].rotation).toBe(15);
+  });
+
+  it('returns the same state for updates that change nothing', () => {
+    const state = documentWithShapes();
+    const [layer] = state.layers;
+
+    expect(
+      posterReducer(state, {
+        type: 'UPDATE_LAYERS',
+        updates: [{ id: 'a', changes: { opacity: layer.opacity, locked: layer.locked } }],
+      })
+    ).toBe(state);
+  });
+
+  it('applies updates to each layer', () => {
+    const document = posterReducer(documentWithShapes(), {
+      type: 'UPDATE_LAYERS',
+      updates: [
+        { id: 'a', changes: { opacity: 0.5 } },
+        { id: 'b', changes: { locked: true } },
+      ],
+    });
+
+    expect(document.layers.map(({ opacity, locked }) => ({ opacity, locked }))).toEqual([
+      { opacity: 0.5, locked: false },
+      { opacity: 1, locked: true },
+    ]);
+  });
+
+  it('drops groups left empty when their layers are removed', () => {
+    const grouped = posterReducer(documentWithShapes(), {
+      type: 'GROUP_LAYERS',
+      ids: ['a', 'b'],
+      group: { id: 'g', name: 'Group' },
+    });
+    const document = posterReducer(grouped, { type: 'REMOVE_LAYERS', ids: ['a', 'b'] });
+
+    expect(grouped.groups).toHaveLength(1);
+    expect(document.groups).toEqual([]);
+  });
+});
@@ -0,0 +1,234 @@
+import type { LayerGroup, PosterDocument, PosterFont, PosterLayer, PosterSticker } from './document';
+import { groupLayers, pruneGroups, ungroupLayers } from './groups';
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
+
+export type LayerChanges = Partial<DistributiveOmit<PosterLayer, 'id' | 'type'>>;
+
+export type PosterAction =
+  | {
+      type: 'LOAD_DOCUMENT';
+      document: PosterDocument;
+    }
+  | {
+      type: 'SET_CANVAS_SIZE';
+      width: number;
+      height: number;
+    }
+  | {
+      type: 'SET_BACKGROUND';
+      background: PosterDocument['background'];
+    }
+  | {
+      type: 'SET_LAYOUT';
+      layout: PosterDocument['layout'];
+    }
+  | {
+      type: 'ADD_FONT';
+      font: PosterFont;
+      // A text layer to switch to the new font in the same step.
+      layerId?: string;
+    }
+  | {
+      type: 'ADD_STICKER';
+      sticker: PosterSticker;
+    }
+  | {
+      type: 'REMOVE_STICKER';
+      assetId: string;
+    }
+  | {
+      type: 'ADD_LAYER';
+      layer: PosterLayer;
+      index?: number;
+    }
+  | {
+      type: 'UPDATE_LAYER';
+      id: string;
+      changes: LayerChanges;
+    }
+  | {
+      type: 'MOVE_LAYER';
+      id: string;
+      x: number;
+      y: number;
+    }
+  | {
+      type: 'MOVE_LAYERS';
+      moves: { id: string; x: number; y: number }[];
+    }
+  | {
+      type: 'UPDATE_LAYERS';
+      updates: { id: string; changes: LayerChanges }[];
+    }
+  | {
+      type: 'RESIZE_LAYER';
+      id: string;
+      width: number;
+      height: number;
+    }
+  | {
+      type: 'REMOVE_LAYER';
+      id: string;
+    }
+  | {
+      type: 'REMOVE_LAYERS';
+      ids: string[];
+    }
+  | {
+      type: 'GROUP_LAYERS';
+      ids: string[];
+      group: Omit<LayerGroup, 'parentId'>;
+    }
+  | {
+      type: 'UNGROUP';
+      groupIds: string[];
+    }
+  | {
+      type: 'DUPLICATE_LAYER';
+      id: string;
+      newId: string;
+    }
+  | {
+      type: 'REORDER_LAYER';
+      id: string;
+      index: number;
+    };
+
+// Returns the original state when the update leaves every layer untouched, so callers can
+// tell a no-op (e.g. a click without a drag) apart from a real edit.
+const updateLayers = (state: PosterDocument, update: (layer: PosterLayer) => PosterLayer): PosterDocument => {
+  let changed = false;
+  const layers = state.layers.map((layer) => {
+    const next = update(layer);
+    changed = changed || next !== layer;
+    return next;
+  });
+  return changed ? { ...state, layers } : state;
+};
+
+const updateLayer = (state: PosterDocument, id: string, update: (layer: PosterLayer) => PosterLayer) =>
+  updateLayers(state, (layer) => (layer.id === id ? update(layer) : layer));
+
+// The layer itself when it already has every value in `changes`.
+const applyChanges = (layer: PosterLayer, changes: LayerChanges) =>
+  (Object.keys(changes) as (keyof LayerChanges)[]).every((key) => layer[key] === changes[key])
+    ? layer
+    : ({ ...layer, ...changes } as PosterLayer);
+
+export const posterReducer = (state: PosterDocument, action: PosterAction): PosterDocument => {
+  switch (action.type) {
+    case 'LOAD_DOCUMENT':
+      return action.document;
+
+    case 'SET_CANVAS_SIZE':
+      if (state.canvas.width === action.width && state.canvas.height === action.height) {
+        return state;
+      }
+      return {
+        ...state,
+        canvas: { width: action.width, height: action.height },
+      };
+
+    case 'SET_BACKGROUND':
+      return {
+        ...state,
+        background: action.background,
+      };
+
+    case 'SET_LAYOUT':
+      return { ...state, layout: action.layout };
+
+    case 'ADD_FONT': {
+      const { font, layerId } = action;
+      const next = { ...state, fonts: [...state.fonts.filter((other) => other.family !== font.family), font] };
+      if (!layerId) return next;
+      return updateLayer(next, layerId, (layer) =>
+        layer.type === 'text' ? { ...layer, style: { ...layer.style, fontFamily: font.family } } : layer
+      );
+    }
+
+    case 'ADD_STICKER':
+      return { ...state, stickers: [...state.stickers, action.sticker] };
+
+    // Layers already placed from the sticker keep using its asset.
+    case 'REMOVE_STICKER':
+      return { ...state, stickers: state.stickers.filter((sticker) => sticker.assetId !== action.assetId) };
+
+    case 'ADD_LAYER': {
+      const layers = state.layers.filter((layer) => layer.id !== action.layer.id);
+      const index = action.index ?? layers.length;
+      layers.splice(index, 0, action.layer);
+      return { ...state, layers };
+    }
+
+    case 'UPDATE_LAYER':
+      return updateLayer(state, action.id, (layer) => applyChanges(layer, action.changes));
+
+    case 'MOVE_LAYER':
+      return updateLayer(state, action.id, (layer) =>
+        layer.x === action.x && layer.y === action.y ? layer : { ...layer, x: action.x, y: action.y }
+      );
+
+    case 'MOVE_LAYERS': {
+      const moves = new Map(action.moves.map((move) => [move.id, move]));
+      return updateLayers(state, (layer) => {
+        const move = moves.get(layer.id);
+        return move ? applyChanges(layer, { x: move.x, y: move.y }) : layer;
+      });
+    }
+
+    case 'UPDATE_LAYERS': {
+      const updates = new Map(action.updates.map((update) => [update.id, update.changes]));
+      return updateLayers(state, (layer) => {
+        const changes = updates.get(layer.id);
+        return changes ? applyChanges(layer, changes) : layer;
+      });
+    }
+
+    case 'RESIZE_LAYER':
+      return updateLayer(state, action.id, (layer) =>
+        layer.width === action.width && layer.height === action.height
+          ? layer
+          : { ...layer, width: action.width, height: action.height }
+      );
+
+    case 'REMOVE_LAYER':
+      return pruneGroups({
+        ...state,
+        layers: state.layers.filter((layer) => layer.id !== action.id),
+      });
+
+    case 'REMOVE_LAYERS':
+      return pruneGroups({
+        ...state,
+        layers: state.layers.filter((layer) => !action.ids.includes(layer.id)),
+      });
+
+    case 'GROUP_LAYERS':
+      return groupLayers(state, action.ids, action.group);
+
+    case 'UNGROUP':
+      return ungroupLayers(state, action.groupIds);
+
+    case 'DUPLICATE_LAYER': {
+      const index = state.layers.findIndex((layer) => layer.id === action.id);
+      if (index === -1) return state;
+      const source = state.layers[index];
+      const copy = { ...source, id: action.newId, name: `${source.name} copy`, x: source.x + 10, y: source.y + 10 };
+      const layers = [...state.layers];
+      layers.splice(index + 1, 0, copy);
+      return { ...state, layers };
+    }
+
+    case 'REORDER_LAYER': {
+      const index = state.layers.findIndex((layer) => layer.id === action.id);
+      const target = Math.max(0, Math.min(state.layers.length - 1, action.index));
+      if (index === -1 || index === target) return state;
+      const layers = [...state.layers];
+      const [layer] = layers.splice(index, 1);
+      layers.splice(target, 0, layer);
+      return { ...state, layers };
+    }
+  }
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { TextSpan } from './document';
+import { applyFormat, formatAt, normalizeSpans, rangeHasFormat, replaceText, spansToText } from './rich-text';
+
+// "Hello " plain, "big" bold, " world" plain.
+const sample = (): TextSpan[] => [{ text: 'Hello ' }, { text: 'big', bold: true }, { text: ' world' }];
+
+describe('normalizeSpans', () => {
+  it('merges neighbours with the same format and drops empty spans', () => {
+    const spans = [{ text: 'a' }, { text: '', bold: true }, { text: 'b' }, { text: 'c', italic: true }];
+
+    expect(normalizeSpans(spans)).toEqual([{ text: 'ab' }, { text: 'c', italic: true }]);
+  });
+
+  it('keeps one empty span, with its format, when all text is gone', () => {
+    expect(normalizeSpans([{ text: '', color: '#ff0000' }])).toEqual([{ text: '', color: '#ff0000' }]);
+    expect(normalizeSpans([])).toEqual([{ text: '' }]);
+  });
+});
+
+describe('replaceText', () => {
+  it('keeps the formatting of text the edit did not touch', () => {
+    expect(replaceText(sample(), 'Hello bigger world')).toEqual([
+      { text: 'Hello ' },
+      { text: 'bigger', bold: true },
+      { text: ' world' },
+    ]);
+  });
+
+  it('removes a span whose text is deleted', () => {
+    expect(replaceText(sample(), 'Hello  world')).toEqual([{ text: 'Hello  world' }]);
+  });
+
+  it('gives typed text the format of the character before it', () => {
+    expect(formatAt(sample(), 9)).toEqual({ bold: true });
+    expect(formatAt(sample(), 0)).toEqual({});
+    expect(spansToText(replaceText(sample(), 'Oh, Hello big world'))).toBe('Oh, Hello big world');
+  });
+});
+
+describe('applyFormat', () => {
+  it('formats part of a span and splits it around the range', () => {
+    expect(applyFormat([{ text: 'poster' }], 1, 3, { italic: true })).toEqual([
+      { text: 'p' },
+      { text: 'os', italic: true },
+      { text: 'ter' },
+    ]);
+  });
+
+  it('clears a format with an undefined value and merges what becomes equal', () => {
+    expect(applyFormat(sample(), 6, 9, { bold: undefined })).toEqual([{ text: 'Hello big world' }]);
+  });
+
+  it('reports whether a whole range has a format', () => {
+    expect(rangeHasFormat(sample(), 6, 9, 'bold')).toBe(true);
+    expect(rangeHasFormat(sample(), 5, 9, 'bold')).toBe(false);
+    expect(rangeHasFormat(sample(), 6, 6, 'bold')).toBe(false);
+  });
+});
@@ -0,0 +1,163 @@
+import type { CSSProperties } from 'react';
+import type { TextSpan, TextStyle } from './document';
+
+export type SpanFormat = Omit<TextSpan, 'text'>;
+
+const FORMAT_KEYS: (keyof SpanFormat)[] = ['bold', 'italic', 'color', 'scale'];
+
+export function spansFromText(text: string): TextSpan[] {
+  return [{ text }];
+}
+
+export function spansToText(spans: TextSpan[]) {
+  return spans.map((span) => span.text).join('');
+}
+
+export function spanFormat(span: TextSpan): SpanFormat {
+  const format: SpanFormat = {};
+  FORMAT_KEYS.forEach((key) => {
+    if (span[key] !== undefined) Object.assign(format, { [key]: span[key] });
+  });
+  return format;
+}
+
+function sameFormat(a: TextSpan, b: TextSpan) {
+  return FORMAT_KEYS.every((key) => a[key] === b[key]);
+}
+
+// Merges neighbours with identical formatting and drops empty spans, keeping at least one span.
+export function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = [];
+  spans.forEach((span) => {
+    if (!span.text) return;
+    const previous = result[result.length - 1];
+    if (previous && sameFormat(previous, span)) {
+      result[result.length - 1] = { ...previous, text: previous.text + span.text };
+    } else {
+      result.push(span);
+    }
+  });
+  return result.length > 0 ? result : [{ ...spanFormat(spans[0] ?? { text: '' }), text: '' }];
+}
+
+export function sliceSpans(spans: TextSpan[], start: number, end: number): TextSpan[] {
+  const result: TextSpan[] = [];
+  let offset = 0;
+  spans.forEach((span) => {
+    const spanStart = offset;
+    const spanEnd = offset + span.text.length;
+    offset = spanEnd;
+    const from = Math.max(start, spanStart);
+    const to = Math.min(end, spanEnd);
+    if (from < to) {
+      result.push({ ...span, text: span.text.slice(from - spanStart, to - spanStart) });
+    }
+  });
+  return result;
+}
+
+// The format a character typed at `offset` inherits: that of the character before it.
+export function formatAt(spans: TextSpan[], offset: number): SpanFormat {
+  const index = Math.max(0, offset - 1);
+  let position = 0;
+  for (const span of spans) {
+    if (index < position + span.text.length) return spanFormat(span);
+    position += span.text.length;
+  }
+  const last = spans[spans.length - 1];
+  return last ? spanFormat(last) : {};
+}
+
+export function replaceRange(spans: TextSpan[], start: number, end: number, text: string) {
+  const length = spansToText(spans).length;
+  return normalizeSpans([
+    ...sliceSpans(spans, 0, start),
+    { ...formatAt(spans, start), text },
+    ...sliceSpans(spans, end, length),
+  ]);
+}
+
+// Applies a plain-text edit (e.g. from a textarea) while keeping the formatting of untouched text.
+export function replaceText(spans: TextSpan[], next: string) {
+  const current = spansToText(spans);
+  let prefix = 0;
+  while (prefix < current.length && prefix < next.length && current[prefix] === next[prefix]) {
+    prefix += 1;
+  }
+  let suffix = 0;
+  while (
+    suffix < current.length - prefix &&
+    suffix < next.length - prefix &&
+    current[current.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+  return replaceRange(spans, prefix, current.length - suffix, next.slice(prefix, next.length - suffix));
+}
+
+// Sets (or, with an undefined value, clears) format keys on the characters in [start, end).
+export function applyFormat(spans: TextSpan[], start: number, end: number, patch: SpanFormat) {
+  const length = spansToText(spans).length;
+  const formatted = sliceSpans(spans, start, end).map((span) => {
+    const next = { ...span, ...patch };
+    FORMAT_KEYS.forEach((key) => {
+      if (next[key] === undefined) delete next[key];
+    });
+    return next;
+  });
+  return normalizeSpans([...sliceSpans(spans, 0, start), ...formatted, ...sliceSpans(spans, end, length)]);
+}
+
+export function rangeHasFormat(spans: TextSpan[], start: number, end: number, key: 'bold' | 'italic') {
+  const range = sliceSpans(spans, start, end);
+  return range.length > 0 && range.every((span) => span[key]);
+}
+
+export function spanCss(span: TextSpan, style: TextStyle): CSSProperties {
+  return {
+    fontWeight: span.bold ? Math.min(900, style.fontWeight + 300) : undefined,
+    fontStyle: span.italic === undefined ? undefined : span.italic ? 'italic' : 'normal',
+    color: span.color,
+    // Relative to the layer size so auto-fit scales formatted spans along with the rest.
+    fontSize: span.scale === undefined ? undefined : `${span.scale}em`,
+  };
+}
+
+// Builds the same markup the canvas renders with React; used by the fit measurer and the
+// inline editor, which both work on plain DOM nodes.
+export function renderSpansInto(element: HTMLElement, spans: TextSpan[], style: TextStyle) {
+  element.replaceChildren(
+    ...spans.map((span) => {
+      const node = document.createElement('span');
+      node.dataset.format = JSON.stringify(spanFormat(span));
+      Object.assign(node.style, spanCss(span, style));
+      node.textContent = span.text;
+      return node;
+    })
+  );
+  // A trailing newline only renders as an empty line when something follows it.
+  if (spansToText(spans).endsWith('\n')) {
+    const sentinel = document.createElement('br');
+    sentinel.dataset.sentinel = 'true';
+    element.appendChild(sentinel);
+  }
+}
+
+export function spansFromDom(element: HTMLElement): TextSpan[] {
+  const spans: TextSpan[] = [];
+  const walk = (node: Node, format: SpanFormat) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      spans.push({ ...format, text: node.textContent ?? '' });
+      return;
+    }
+    if (!(node instanceof HTMLElement)) return;
+    if (node.tagName === 'BR') {
+      if (!node.dataset.sentinel) spans.push({ ...format, text: '\n' });
+      return;
+    }
+    const own = node.dataset.format ? (JSON.parse(node.dataset.format) as SpanFormat) : {};
+    node.childNodes.forEach((child) => walk(child, { ...format, ...own }));
+  };
+  element.childNodes.forEach((child) => walk(child, {}));
+  return normalizeSpans(spans);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { createShapeLayer, type ShapeKind, type ShapeLayer } from './document';
+import { shapeLayerSvg, shapePaths, strokeDashArray } from './shapes';
+
+const shape = (kind: ShapeKind, changes: Partial<ShapeLayer> = {}): ShapeLayer => ({
+  ...createShapeLayer(kind, { width: 400, height: 400 }),
+  x: 10,
+  y: 20,
+  width: 100,
+  height: 50,
+  ...changes,
+});
+
+const solid = (width: number) => ({ width, color: '#000000', dash: 'solid' as const });
+
+describe('shapePaths', () => {
+  it('fills the box with a rectangle, inset by half the stroke', () => {
+    expect(shapePaths(shape('rectangle', { stroke: null })).outline).toBe('M0 0h100v50h-100Z');
+    expect(shapePaths(shape('rectangle', { stroke: solid(4) })).outline).toBe('M2 2h96v46h-96Z');
+  });
+
+  it('rounds rectangle corners with arcs', () => {
+    const { outline } = shapePaths(shape('rectangle', { stroke: null, cornerRadius: 10 }));
+
+    expect(outline.startsWith('M10 0h80a10 10 0 0 1 10 10v30')).toBe(true);
+  });
+
+  it('starts polygons straight up', () => {
+    const { outline } = shapePaths(shape('polygon', { stroke: null, width: 100, height: 100, points: 4 }));
+
+    expect(outline).toBe('M50 0L100 50L50 100L0 50Z');
+  });
+
+  it('gives a star an inner corner between every two tips', () => {
+    const { outline } = shapePaths(shape('star', { stroke: null, points: 5 }));
+
+    expect(outline.split('L')).toHaveLength(10);
+  });
+
+  it('keeps the round ends of a dotted line inside the box', () => {
+    const stroke = { width: 4, color: '#000000', dash: 'dotted' as const };
+
+    expect(shapePaths(shape('line', { stroke })).outline).toBe('M2 25H98');
+  });
+
+  it('sizes an arrowhead from the stroke width and runs the shaft into it', () => {
+    expect(shapePaths(shape('arrow', { stroke: solid(4) }))).toEqual({
+      outline: 'M0 25H85',
+      head: 'M100 25L84 15L84 35Z',
+    });
+  });
+});
+
+describe('strokeDashArray', () => {
+  it('scales dashes and dots with the stroke width', () => {
+    expect(strokeDashArray({ width: 2, color: '#000000', dash: 'dashed' })).toBe('6 4');
+    expect(strokeDashArray({ width: 2, color: '#000000', dash: 'dotted' })).toBe('0 4');
+    expect(strokeDashArray(solid(2))).toBeUndefined();
+  });
+});
+
+describe('shapeLayerSvg', () => {
+  it('places the shape on the canvas, turning around the centre of its box', () => {
+    const svg = shapeLayerSvg(shape('rectangle', { stroke: null, rotation: 30, opacity: 0.5 }));
+
+    expect(svg).toContain(
+      'transform="translate(60 45) rotate(30) matrix(1 0 0 1 0 0) translate(-50 -25)" opacity="0.5"'
+    );
+  });
+
+  it('escapes colours written into attributes', () => {
+    expect(shapeLayerSvg(shape('rectangle', { stroke: null, fill: 'a"b' }))).toContain('fill="a&quot;b"');
+  });
+
+  it('leaves lines unfilled and paints the arrowhead with the stroke colour', () => {
+    const svg = shapeLayerSvg(shape('arrow', { fill: '#ff0000', stroke: { ...solid(4), color: '#0000ff' } }));
+
+    expect(svg).toContain('fill="none" stroke="#0000ff" stroke-width="4"');
+    expect(svg).toContain('<path d="M100 25L84 15L84 35Z" fill="#0000ff"/>');
+  });
+});
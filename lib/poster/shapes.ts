@@ -0,0 +1,118 @@
+import type { ShapeLayer, ShapeStroke } from './document';
+import { escapeAttribute } from './frames';
+
+export interface ShapePaths {
+  // Filled with the layer fill and stroked with its stroke.
+  outline: string;
+  // The arrowhead, filled with the stroke color.
+  head?: string;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function polygonPath(points: [number, number][]) {
+  return `M${points.map(([x, y]) => `${round(x)} ${round(y)}`).join('L')}Z`;
+}
+
+function rectanglePath(x: number, y: number, width: number, height: number, cornerRadius: number) {
+  const r = Math.min(cornerRadius, width / 2, height / 2);
+  if (r <= 0) {
+    return `M${x} ${y}h${width}v${height}h${-width}Z`;
+  }
+  const arc = (dx: number, dy: number) => `a${r} ${r} 0 0 1 ${dx} ${dy}`;
+  return (
+    `M${x + r} ${y}h${width - 2 * r}${arc(r, r)}v${height - 2 * r}${arc(-r, r)}` +
+    `h${-(width - 2 * r)}${arc(-r, -r)}v${-(height - 2 * r)}${arc(r, -r)}Z`
+  );
+}
+
+// Corners around an ellipse, starting straight up like a printed star.
+function radialPoints(cx: number, cy: number, rx: number, ry: number, radii: number[], count: number) {
+  return Array.from({ length: count }, (_, index): [number, number] => {
+    const angle = -Math.PI / 2 + (index * 2 * Math.PI) / count;
+    const radius = radii[index % radii.length];
+    return [cx + rx * radius * Math.cos(angle), cy + ry * radius * Math.sin(angle)];
+  });
+}
+
+// SVG path data for a shape filling a `width` x `height` box. Closed shapes are inset by half the
+// stroke so the stroke stays inside the box, like the text and image layers.
+export function shapePaths(layer: ShapeLayer): ShapePaths {
+  const { width, height, stroke } = layer;
+  const inset = stroke ? Math.min(stroke.width / 2, width / 2, height / 2) : 0;
+  const cx = width / 2;
+  const cy = height / 2;
+  const rx = width / 2 - inset;
+  const ry = height / 2 - inset;
+
+  switch (layer.shape) {
+    case 'rectangle':
+      return { outline: rectanglePath(inset, inset, width - inset * 2, height - inset * 2, layer.cornerRadius) };
+    case 'ellipse':
+      return { outline: `M${cx - rx} ${cy}a${rx} ${ry} 0 1 0 ${rx * 2} 0a${rx} ${ry} 0 1 0 ${-rx * 2} 0Z` };
+    case 'polygon':
+      return { outline: polygonPath(radialPoints(cx, cy, rx, ry, [1], layer.points)) };
+    case 'star':
+      return { outline: polygonPath(radialPoints(cx, cy, rx, ry, [1, layer.innerRadius], layer.points * 2)) };
+    case 'line': {
+      // Round dots would poke out of the box at the ends.
+      const end = stroke?.dash === 'dotted' ? stroke.width / 2 : 0;
+      return { outline: `M${end} ${cy}H${width - end}` };
+    }
+    case 'arrow': {
+      const lineWidth = stroke?.width ?? 0;
+      const headLength = Math.min(width / 2, Math.max(lineWidth * 4, 12));
+      const headHalf = Math.min(height / 2, Math.max(lineWidth * 2.5, 8));
+      return {
+        // The shaft runs into the head so no gap shows between them.
+        outline: `M0 ${cy}H${round(width - headLength + 1)}`,
+        head: polygonPath([
+          [width, cy],
+          [width - headLength, cy - headHalf],
+          [width - headLength, cy + headHalf],
+        ]),
+      };
+    }
+  }
+}
+
+export function strokeDashArray(stroke: ShapeStroke) {
+  switch (stroke.dash) {
+    case 'dashed':
+      return `${stroke.width * 3} ${stroke.width * 2}`;
+    case 'dotted':
+      // Zero-length dashes with round caps draw as dots.
+      return `0 ${stroke.width * 2}`;
+    default:
+      return undefined;
+  }
+}
+
+export function isLinearShape(layer: Pick<ShapeLayer, 'shape'>) {
+  return layer.shape === 'line' || layer.shape === 'arrow';
+}
+
+// The layer as SVG markup in canvas coordinates, painted like ShapeLayerContent, so exports can
+// write shapes out as vectors. Rotation and skew turn around the centre of the box like the CSS.
+export function shapeLayerSvg(layer: ShapeLayer) {
+  const { outline, head } = shapePaths(layer);
+  const { stroke } = layer;
+  const cx = layer.width / 2;
+  const cy = layer.height / 2;
+  const tan = (degrees: number) => Math.round(Math.tan((degrees * Math.PI) / 180) * 10000) / 10000;
+  const transform =
+    `translate(${layer.x + cx} ${layer.y + cy}) rotate(${layer.rotation}) ` +
+    `matrix(1 ${tan(layer.skewY)} ${tan(layer.skewX)} 1 0 0) translate(${-cx} ${-cy})`;
+
+  const fill = isLinearShape(layer) ? 'none' : layer.fill ?? 'none';
+  let paint = `fill="${escapeAttribute(fill)}"`;
+  if (stroke) {
+    const dash = strokeDashArray(stroke);
+    paint +=
+      ` stroke="${escapeAttribute(stroke.color)}" stroke-width="${stroke.width}"` +
+      `${dash ? ` stroke-dasharray="${dash}"` : ''} stroke-linecap="${stroke.dash === 'dotted' ? 'round' : 'butt'}"` +
+      ` stroke-linejoin="round"`;
+  }
+  const arrowhead = head && stroke ? `<path d="${head}" fill="${escapeAttribute(stroke.color)}"/>` : '';
+  return `<g transform="${transform}" opacity="${layer.opacity}"><path d="${outline}" ${paint}/>${arrowhead}</g>`;
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_POSTER_LAYOUT } from './document';
+import { snapLayerPosition } from './snapping';
+
+const canvas = { width: 400, height: 300 };
+
+const box = (x: number, y: number) => ({ x, y, width: 50, height: 50, rotation: 0, skewX: 0, skewY: 0 });
+
+describe('snapLayerPosition', () => {
+  it('snaps to a nearby canvas edge and leaves the other axis alone', () => {
+    const result = snapLayerPosition(box(0, 0), 3, 90, [], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(result).toEqual({
+      x: 0,
+      y: 90,
+      guides: [{ axis: 'x', position: 0, start: 0, end: 300 }],
+      distances: [],
+    });
+  });
+
+  it('lines up with another layer and measures the gap between them', () => {
+    const result = snapLayerPosition(box(0, 0), 208, 200, [box(260, 100)], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(result.x).toBe(210);
+    expect(result.y).toBe(200);
+    expect(result.guides).toEqual([{ axis: 'x', position: 260, start: 100, end: 250 }]);
+    expect(result.distances).toEqual([{ axis: 'y', from: 150, to: 200, at: 260 }]);
+  });
+
+  it('measures the margin it snaps to', () => {
+    const result = snapLayerPosition(box(0, 0), 100, 23, [], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(result.y).toBe(20);
+    expect(result.distances).toEqual([{ axis: 'y', from: 0, to: 20, at: 125 }]);
+  });
+
+  it('skips snaps that would push the layer off the canvas', () => {
+    const result = snapLayerPosition(box(0, 0), 348, 90, [box(352, 200)], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(result.x).toBe(350);
+    expect(result.guides).toEqual([{ axis: 'x', position: 400, start: 0, end: 300 }]);
+  });
+
+  it('does not snap when nothing is within the threshold', () => {
+    const result = snapLayerPosition(box(0, 0), 100, 90, [], canvas, DEFAULT_POSTER_LAYOUT);
+
+    expect(result).toEqual({ x: 100, y: 90, guides: [], distances: [] });
+  });
+});
@@ -0,0 +1,178 @@
+import type { PosterDocument, PosterLayer } from './document';
+import { dragBounds, layerBounds, type Bounds } from './geometry';
+import { baselinePositions, columnEdges } from './layout';
+
+// How close, in canvas pixels, a layer has to come to a line before it jumps onto it.
+export const SNAP_THRESHOLD = 6;
+
+type LayerBox = Pick<PosterLayer, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'skewX' | 'skewY'>;
+type Axis = 'x' | 'y';
+
+// A line the dragged layer lines up with. On the x axis it is vertical, at x = `position`,
+// running from `start` to `end` on the y axis; the other way round on the y axis.
+export interface SnapGuide {
+  axis: Axis;
+  position: number;
+  start: number;
+  end: number;
+}
+
+// A measured gap along `axis` from `from` to `to`, drawn at `at` on the other axis.
+export interface SnapDistance {
+  axis: Axis;
+  from: number;
+  to: number;
+  at: number;
+}
+
+export interface SnapResult {
+  x: number;
+  y: number;
+  guides: SnapGuide[];
+  distances: SnapDistance[];
+}
+
+interface SnapTarget {
+  position: number;
+  kind: 'canvas' | 'margin' | 'grid' | 'guide' | 'layer';
+  bounds: Bounds;
+}
+
+const ends = (bounds: Bounds, axis: Axis) =>
+  axis === 'x' ? ([bounds.left, bounds.right] as const) : ([bounds.top, bounds.bottom] as const);
+
+const features = (bounds: Bounds, axis: Axis) => {
+  const [start, end] = ends(bounds, axis);
+  return [start, (start + end) / 2, end];
+};
+
+function canvasTargets(canvas: PosterDocument['canvas'], layout: PosterDocument['layout'], axis: Axis): SnapTarget[] {
+  const size = axis === 'x' ? canvas.width : canvas.height;
+  const bounds = { left: 0, top: 0, right: canvas.width, bottom: canvas.height };
+  const { margin } = layout.columns;
+  // Grids only snap while they are shown.
+  let grid: number[] = [];
+  if (axis === 'x' && layout.columns.enabled) {
+    grid = columnEdges(canvas, layout.columns).flatMap((column) => [column.left, column.right]);
+  } else if (axis === 'y' && layout.baseline.enabled) {
+    grid = baselinePositions(canvas, layout.baseline);
+  }
+  return [
+    ...[0, size / 2, size].map((position) => ({ position, kind: 'canvas' as const, bounds })),
+    ...[margin, size - margin].map((position) => ({ position, kind: 'margin' as const, bounds })),
+    ...grid.map((position) => ({ position, kind: 'grid' as const, bounds })),
+    ...layout.guides
+      .filter((guide) => guide.axis === axis)
+      .map((guide) => ({ position: guide.position, kind: 'guide' as const, bounds })),
+  ];
+}
+
+function layerTargets(others: LayerBox[], axis: Axis): SnapTarget[] {
+  return others.flatMap((other) => {
+    const bounds = layerBounds(other);
+    return features(bounds, axis).map((position) => ({ position, kind: 'layer' as const, bounds }));
+  });
+}
+
+// The smallest shift within the threshold and the allowed range that lines a feature of the layer
+// up with a target, and every target it lines up with after that shift.
+function findSnap(bounds: Bounds, targets: SnapTarget[], axis: Axis, minDelta: number, maxDelta: number) {
+  let best: number | null = null;
+  for (const feature of features(bounds, axis)) {
+    for (const target of targets) {
+      const delta = target.position - feature;
+      const allowed = delta >= minDelta && delta <= maxDelta && Math.abs(delta) <= SNAP_THRESHOLD;
+      if (allowed && (best === null || Math.abs(delta) < Math.abs(best))) {
+        best = delta;
+      }
+    }
+  }
+  if (best === null) return null;
+
+  const delta = best;
+  const aligned = targets.filter((target) =>
+    features(bounds, axis).some((feature) => Math.abs(feature + delta - target.position) < 0.5)
+  );
+  return { delta, aligned };
+}
+
+function shift(bounds: Bounds, dx: number, dy: number): Bounds {
+  return { left: bounds.left + dx, right: bounds.right + dx, top: bounds.top + dy, bottom: bounds.bottom + dy };
+}
+
+function guideFor(target: SnapTarget, moving: Bounds, axis: Axis): SnapGuide {
+  // Guides along the canvas or a margin span the whole canvas; between layers they join the two.
+  const other: Axis = axis === 'x' ? 'y' : 'x';
+  const [movingStart, movingEnd] = ends(moving, other);
+  const [targetStart, targetEnd] = ends(target.bounds, other);
+  if (target.kind !== 'layer') {
+    return { axis, position: target.position, start: targetStart, end: targetEnd };
+  }
+  return {
+    axis,
+    position: target.position,
+    start: Math.min(movingStart, targetStart),
+    end: Math.max(movingEnd, targetEnd),
+  };
+}
+
+function distanceFor(target: SnapTarget, moving: Bounds, axis: Axis): SnapDistance | null {
+  const other: Axis = axis === 'x' ? 'y' : 'x';
+  if (target.kind === 'margin') {
+    // The margin itself, measured from the nearer canvas edge to the guide.
+    const [canvasStart, canvasEnd] = ends(target.bounds, axis);
+    const [movingStart, movingEnd] = ends(moving, other);
+    const edge = target.position - canvasStart < canvasEnd - target.position ? canvasStart : canvasEnd;
+    return { axis, from: edge, to: target.position, at: (movingStart + movingEnd) / 2 };
+  }
+  if (target.kind === 'layer') {
+    // The gap between the two layers along the guide, if they do not overlap.
+    const [movingStart, movingEnd] = ends(moving, other);
+    const [targetStart, targetEnd] = ends(target.bounds, other);
+    if (targetEnd <= movingStart) return { axis: other, from: targetEnd, to: movingStart, at: target.position };
+    if (movingEnd <= targetStart) return { axis: other, from: movingEnd, to: targetStart, at: target.position };
+  }
+  return null;
+}
+
+// Snaps the dragged layer at (x, y) to the canvas edges and centre, the margins, the shown column and
+// baseline grids, the guides, and the edges and centres of the other layers, using the rotated
+// bounds of each. Snaps that would push the layer off the canvas are skipped.
+export function snapLayerPosition(
+  layer: LayerBox,
+  x: number,
+  y: number,
+  others: LayerBox[],
+  canvas: PosterDocument['canvas'],
+  layout: PosterDocument['layout']
+): SnapResult {
+  const moved = { ...layer, x, y };
+  const bounds = layerBounds(moved);
+  const limits = dragBounds(moved, canvas);
+
+  const targetsX = [...canvasTargets(canvas, layout, 'x'), ...layerTargets(others, 'x')];
+  const targetsY = [...canvasTargets(canvas, layout, 'y'), ...layerTargets(others, 'y')];
+  const snapX = findSnap(bounds, targetsX, 'x', limits.left - x, limits.right - x);
+  const snapY = findSnap(bounds, targetsY, 'y', limits.top - y, limits.bottom - y);
+  const dx = snapX?.delta ?? 0;
+  const dy = snapY?.delta ?? 0;
+  const snapped = shift(bounds, dx, dy);
+
+  const matches = [
+    ...(snapX?.aligned ?? []).map((target) => ({ target, axis: 'x' as const })),
+    ...(snapY?.aligned ?? []).map((target) => ({ target, axis: 'y' as const })),
+  ];
+  // Lining up the left edge, centre and right edge with one layer measures the same gap three times.
+  const distances = new Map<string, SnapDistance>();
+  matches.forEach(({ target, axis }) => {
+    const distance = distanceFor(target, snapped, axis);
+    const key = distance && `${distance.axis}:${distance.from}:${distance.to}`;
+    if (distance && key && !distances.has(key)) distances.set(key, distance);
+  });
+  return {
+    x: x + dx,
+    y: y + dy,
+    guides: matches.map(({ target, axis }) => guideFor(target, snapped, axis)),
+    distances: Array.from(distances.values()),
+  };
+}
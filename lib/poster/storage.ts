@@ -0,0 +1,93 @@
+import type { PosterDocument } from './document';
+import type { PosterAsset } from './assets';
+import { readPosterDocument } from './migrations';
+
+const DATABASE_NAME = 'magazine-poster-generator';
+const DATABASE_VERSION = 3;
+const DRAFTS_STORE = 'drafts';
+export const PROJECTS_STORE = 'projects';
+// Names, dates and thumbnails of the projects, so the library can list them without loading every asset.
+export const PROJECT_SUMMARIES_STORE = 'project-summaries';
+const CURRENT_DRAFT_KEY = 'current';
+
+export interface PosterDraft {
+  document: PosterDocument;
+  assets: PosterAsset[];
+  savedAt: number;
+  // Set when the draft is a working copy of a library project.
+  project?: { id: string; name: string };
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DRAFTS_STORE)) {
+          db.createObjectStore(DRAFTS_STORE);
+        }
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) {
+          db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(PROJECT_SUMMARIES_STORE)) {
+          const summaries = db.createObjectStore(PROJECT_SUMMARIES_STORE, { keyPath: 'id' });
+          // Projects saved before summaries existed get theirs written here.
+          const cursorRequest = request.transaction?.objectStore(PROJECTS_STORE).openCursor();
+          if (cursorRequest) {
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const { id, name, thumbnail, createdAt, updatedAt } = cursor.value;
+              summaries.put({ id, name, thumbnail, createdAt, updatedAt });
+              cursor.continue();
+            };
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      databasePromise = null;
+      throw error;
+    });
+  }
+  return databasePromise;
+}
+
+export async function saveDraft(draft: PosterDraft) {
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE);
+  await promisifyRequest(store.put(draft, CURRENT_DRAFT_KEY));
+}
+
+// Resolves to null when there is no draft or the stored one no longer matches the schema.
+export async function loadDraft(): Promise<PosterDraft | null> {
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, 'readonly').objectStore(DRAFTS_STORE);
+  const draft: PosterDraft | undefined = await promisifyRequest(store.get(CURRENT_DRAFT_KEY));
+  if (!draft) {
+    return null;
+  }
+
+  try {
+    return { ...draft, document: readPosterDocument(draft.document) };
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteDraft() {
+  const db = await openDatabase();
+  const store = db.transaction(DRAFTS_STORE, 'readwrite').objectStore(DRAFTS_STORE);
+  await promisifyRequest(store.delete(CURRENT_DRAFT_KEY));
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { largestFittingSize } from './text-fit';
+
+describe('largestFittingSize', () => {
+  it('rounds the size it finds down to a quarter pixel', () => {
+    expect(largestFittingSize((size) => size <= 17.3, 4, 100) % 0.25).toBe(0);
+  });
+
+  it('keeps the largest size when it already fits', () => {
+    expect(largestFittingSize(() => true, 4, 33.3)).toBe(33.3);
+  });
+
+  it('falls back to the smallest size when nothing fits', () => {
+    expect(largestFittingSize(() => false, 4, 100)).toBe(4);
+  });
+
+  it('never returns a size that does not fit', () => {
+    const limit = 12.9;
+    const size = largestFittingSize((candidate) => candidate <= limit, 4, 72);
+
+    expect(size).toBeLessThanOrEqual(limit);
+    expect(limit - size).toBeLessThan(0.5);
+  });
+});
@@ -0,0 +1,75 @@
+import type { TextLayer } from './document';
+import { TEXT_BOX_CSS, textStyleToCss } from './text';
+import { renderSpansInto, spansToText } from './rich-text';
+
+const MIN_FONT_SIZE = 4;
+const PRECISION = 0.25;
+
+let measurer: HTMLDivElement | null = null;
+
+function getMeasurer() {
+  if (!measurer) {
+    measurer = document.createElement('div');
+    measurer.setAttribute('aria-hidden', 'true');
+    Object.assign(measurer.style, {
+      position: 'absolute',
+      left: '-100000px',
+      top: '0',
+      visibility: 'hidden',
+      pointerEvents: 'none',
+    });
+    document.body.appendChild(measurer);
+  }
+  return measurer;
+}
+
+// Returns the font size a text layer renders at: its own size for `fixed`, otherwise the
+// largest size (capped at style.fontSize for `shrink`) whose wrapped text fits the layer box.
+export function fitFontSize(layer: Pick<TextLayer, 'spans' | 'fit' | 'style' | 'width' | 'height'>) {
+  if (layer.fit === 'fixed' || layer.width <= 0 || layer.height <= 0) {
+    return layer.style.fontSize;
+  }
+
+  // Lines run along the box's inline axis, so vertical text fixes the height and lets columns
+  // grow sideways instead.
+  const vertical = layer.style.direction === 'vertical';
+  const element = getMeasurer();
+  Object.assign(element.style, TEXT_BOX_CSS, textStyleToCss(layer.style), {
+    width: vertical ? 'max-content' : `${layer.width}px`,
+    height: vertical ? `${layer.height}px` : 'auto',
+    filter: 'none',
+  });
+  if (spansToText(layer.spans)) {
+    renderSpansInto(element, layer.spans, layer.style);
+  } else {
+    element.textContent = ' ';
+  }
+
+  const fits = (size: number) => {
+    element.style.fontSize = `${size}px`;
+    return element.scrollHeight <= layer.height + 0.5 && element.scrollWidth <= layer.width + 0.5;
+  };
+
+  const lineSpace = vertical ? layer.width : layer.height;
+  const max = layer.fit === 'shrink' ? layer.style.fontSize : lineSpace / layer.style.lineHeight;
+  return largestFittingSize(fits, MIN_FONT_SIZE, max);
+}
+
+// Binary-searches the largest size between `min` and `max` that `fits`, rounded down to a quarter
+// pixel, assuming every smaller size fits too. Falls back to `min` when nothing fits.
+export function largestFittingSize(fits: (size: number) => boolean, min: number, max: number) {
+  if (fits(max)) return max;
+  if (!fits(min)) return min;
+
+  let low = min;
+  let high = max;
+  while (high - low > PRECISION) {
+    const middle = (low + high) / 2;
+    if (fits(middle)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return Math.floor(low * 4) / 4;
+}
@@ -0,0 +1,102 @@
+import type { CSSProperties } from 'react';
+import type { GradientStop, TextEffect, TextFill, TextStyle } from './document';
+import { hexToRgba } from './color';
+import { fontFamilyCss } from './fonts';
+
+// Wrapping rules shared by the canvas and the fit measurer, so both break lines identically.
+// CJK text already breaks between characters; long Latin words wrap instead of overflowing.
+// `strict` applies kinsoku: closing punctuation and small kana never start a line.
+export const TEXT_BOX_CSS: CSSProperties = {
+  whiteSpace: 'pre-wrap',
+  overflowWrap: 'break-word',
+  lineBreak: 'strict',
+};
+
+function directionCss(direction: TextStyle['direction']): CSSProperties {
+  switch (direction) {
+    case 'vertical':
+      // Latin runs inside a column lie on their side, as in printed CJK magazines.
+      return { writingMode: 'vertical-rl', textOrientation: 'mixed', direction: 'ltr' };
+    case 'rtl':
+      return { writingMode: 'horizontal-tb', direction: 'rtl' };
+    default:
+      return { writingMode: 'horizontal-tb', direction: 'ltr' };
+  }
+}
+
+export function gradientStopsCss(stops: GradientStop[]) {
+  return [...stops]
+    .sort((a, b) => a.offset - b.offset)
+    .map((stop) => `${stop.color} ${stop.offset * 100}%`)
+    .join(', ');
+}
+
+// The fill is painted as the box background and clipped to the glyphs. Spans with their own
+// color still paint solid on top of it.
+function textFillCss(fill: TextFill | null, assetUrls: Record<string, string>): CSSProperties {
+  let backgroundImage: string | undefined;
+  switch (fill?.type) {
+    case 'linear':
+      backgroundImage = `linear-gradient(${fill.angle}deg, ${gradientStopsCss(fill.stops)})`;
+      break;
+    case 'radial':
+      backgroundImage = `radial-gradient(${gradientStopsCss(fill.stops)})`;
+      break;
+    case 'image':
+      backgroundImage = assetUrls[fill.assetId] && `url("${assetUrls[fill.assetId]}")`;
+      break;
+  }
+  if (!backgroundImage) return {};
+
+  return {
+    backgroundImage,
+    backgroundSize: 'cover',
+    backgroundPosition: 'center',
+    WebkitBackgroundClip: 'text',
+    backgroundClip: 'text',
+    color: 'transparent',
+  };
+}
+
+// Shadows and glows use drop-shadow filters rather than text-shadow: text-shadow paints over a
+// clipped background fill, while filters work on the finished glyphs, outline included.
+function textEffectsCss(effects: TextEffect[]): CSSProperties {
+  const outline = effects.find((effect) => effect.type === 'outline');
+  const filters = effects.flatMap((effect) => {
+    switch (effect.type) {
+      case 'shadow':
+        return [
+          `drop-shadow(${effect.offsetX}px ${effect.offsetY}px ${effect.blur}px ${hexToRgba(effect.color, effect.opacity)})`,
+        ];
+      case 'glow':
+        return [`drop-shadow(0 0 ${effect.blur}px ${hexToRgba(effect.color, effect.opacity)})`];
+      default:
+        return [];
+    }
+  });
+
+  return {
+    // The stroke is centred on the glyph edge and painted under the fill, so double it.
+    WebkitTextStroke: outline?.type === 'outline' ? `${outline.width * 2}px ${outline.color}` : undefined,
+    paintOrder: outline ? 'stroke fill' : undefined,
+    filter: filters.length > 0 ? filters.join(' ') : undefined,
+  };
+}
+
+// `assetUrls` resolves image fills; without it they fall back to the plain color.
+export function textStyleToCss(style: TextStyle, assetUrls: Record<string, string> = {}): CSSProperties {
+  return {
+    fontFamily: fontFamilyCss(style.fontFamily),
+    fontSize: `${style.fontSize}px`,
+    fontWeight: style.fontWeight,
+    fontStyle: style.italic ? 'italic' : 'normal',
+    letterSpacing: `${style.letterSpacing}em`,
+    lineHeight: style.lineHeight,
+    textAlign: style.align,
+    textTransform: style.transform,
+    color: style.color,
+    ...directionCss(style.direction),
+    ...textFillCss(style.fill, assetUrls),
+    ...textEffectsCss(style.effects),
+  };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { centeredViewport, clampZoom, fitViewport, MAX_ZOOM, MIN_ZOOM, zoomViewportAt } from './viewport';
+
+describe('fitViewport', () => {
+  it('zooms a small poster in to fill the viewport, centred', () => {
+    const viewport = fitViewport({ width: 344, height: 444 }, 1000, 800);
+
+    expect(viewport.zoom).toBeCloseTo(752 / 444);
+    expect(viewport.x).toBeCloseTo((1000 - 344 * viewport.zoom) / 2);
+    expect(viewport.y).toBeCloseTo(24);
+  });
+
+  it('stops zooming in at four times', () => {
+    expect(fitViewport({ width: 10, height: 10 }, 1000, 800).zoom).toBe(4);
+  });
+
+  it('zooms a large poster out to fit', () => {
+    expect(fitViewport({ width: 4000, height: 4000 }, 448, 448).zoom).toBeCloseTo(0.1);
+  });
+});
+
+describe('zooming', () => {
+  it('keeps the point under the pointer in place', () => {
+    expect(zoomViewportAt({ zoom: 1, x: 0, y: 0 }, 2, 100, 50)).toEqual({ zoom: 2, x: -100, y: -50 });
+    expect(zoomViewportAt({ zoom: 2, x: 10, y: 10 }, 1, 10, 10)).toEqual({ zoom: 1, x: 10, y: 10 });
+  });
+
+  it('keeps the zoom within its limits', () => {
+    expect(clampZoom(100)).toBe(MAX_ZOOM);
+    expect(clampZoom(0)).toBe(MIN_ZOOM);
+    expect(zoomViewportAt({ zoom: 1, x: 0, y: 0 }, 100, 0, 0).zoom).toBe(MAX_ZOOM);
+  });
+
+  it('centres the poster at a given zoom', () => {
+    expect(centeredViewport({ width: 100, height: 50 }, 400, 300, 2)).toEqual({ zoom: 2, x: 100, y: 100 });
+  });
+});
@@ -0,0 +1,49 @@
+import type { PosterDocument } from './document';
+
+// How the poster sits in the editor: scaled by `zoom`, with its top-left corner `x`, `y` screen
+// pixels from the top-left of the viewport. The document itself stays in canvas pixels.
+export interface Viewport {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_ZOOM = 0.05;
+export const MAX_ZOOM = 8;
+// Each zoom in or out step multiplies or divides the zoom by this.
+export const ZOOM_STEP = 1.25;
+// Room left around the poster when it is fitted to the viewport.
+const FIT_PADDING = 24;
+// Fitting blows small posters up, but not so far that a thumbnail-sized canvas turns into a blur.
+const MAX_FIT_ZOOM = 4;
+
+export const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// The poster centred in a viewport of the given size at `zoom`.
+export function centeredViewport(canvas: PosterDocument['canvas'], width: number, height: number, zoom: number) {
+  return {
+    zoom,
+    x: (width - canvas.width * zoom) / 2,
+    y: (height - canvas.height * zoom) / 2,
+  };
+}
+
+// The largest zoom that shows the whole poster, centred.
+export function fitViewport(canvas: PosterDocument['canvas'], width: number, height: number): Viewport {
+  const zoom = clampZoom(
+    Math.min(MAX_FIT_ZOOM, (width - FIT_PADDING * 2) / canvas.width, (height - FIT_PADDING * 2) / canvas.height)
+  );
+  return centeredViewport(canvas, width, height, zoom);
+}
+
+// Changes the zoom while keeping the canvas point under (`pointX`, `pointY`), in viewport pixels,
+// where it is on screen.
+export function zoomViewportAt(viewport: Viewport, zoom: number, pointX: number, pointY: number): Viewport {
+  const next = clampZoom(zoom);
+  const ratio = next / viewport.zoom;
+  return {
+    zoom: next,
+    x: pointX - (pointX - viewport.x) * ratio,
+    y: pointY - (pointY - viewport.y) * ratio,
+  };
+}
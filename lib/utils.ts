@@ -4,3 +4,15 @@ import { twMerge } from 'tailwind-merge';
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+// Inputs that take typed text. Checkboxes, sliders and colour pickers have no undo of their own.
+const TEXT_INPUT_TYPES = new Set(['text', 'search', 'url', 'tel', 'email', 'password', 'number']);
+
+// Whether a key event is headed for a text field, where the browser's own shortcuts should win.
+export function isEditableTarget(target: EventTarget | null) {
+  return (
+    (target instanceof HTMLInputElement && TEXT_INPUT_TYPES.has(target.type)) ||
+    target instanceof HTMLTextAreaElement ||
+    (target instanceof HTMLElement && target.isContentEditable)
+  );
+}
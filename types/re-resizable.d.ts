@@ -8,6 +8,8 @@ declare module 're-resizable' {
     minHeight?: number | string;
     maxWidth?: number | string;
     maxHeight?: number | string;
+    handleWrapperClass?: string;
+    scale?: number;
     children?: React.ReactNode;
   }
 